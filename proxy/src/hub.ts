@@ -0,0 +1,212 @@
+// One shared upstream connection per venue, fanned out to every subscribed browser client
+import WebSocket, { type RawData } from 'ws';
+import type { VenueId, VenueProtocol } from './protocols.js';
+
+export interface HubStats {
+  venue: VenueId;
+  clients: number;
+  channels: Record<string, number>;
+  upstreamConnected: boolean;
+}
+
+export class UpstreamHub {
+  private upstream: WebSocket | null = null;
+  private clients = new Set<WebSocket>();
+  private channels = new Map<string, Set<WebSocket>>();
+  private reconnectAttempts = 0;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly venue: VenueId,
+    private readonly protocol: VenueProtocol,
+    private readonly upstreamUrl: string
+  ) {}
+
+  addClient(client: WebSocket): void {
+    this.clients.add(client);
+    client.send(JSON.stringify({ type: 'connected', venue: this.venue }));
+
+    client.on('message', (data) => this.handleClientMessage(client, data));
+    client.on('close', () => this.removeClient(client));
+    client.on('error', () => this.removeClient(client));
+  }
+
+  stats(): HubStats {
+    return {
+      venue: this.venue,
+      clients: this.clients.size,
+      channels: Object.fromEntries(Array.from(this.channels, ([channel, subscribers]) => [channel, subscribers.size])),
+      upstreamConnected: this.upstream?.readyState === WebSocket.OPEN
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    this.clients.forEach(client => client.terminate());
+    this.clients.clear();
+    this.channels.clear();
+    this.closeUpstream();
+  }
+
+  private handleClientMessage(client: WebSocket, data: RawData): void {
+    const request = this.protocol.parseClient(data.toString());
+    if (!request) return;
+
+    request.replies.forEach(reply => client.send(reply));
+    if (request.action === 'subscribe') {
+      this.subscribe(client, request.channels);
+    } else if (request.action === 'unsubscribe') {
+      this.unsubscribe(client, request.channels);
+    }
+  }
+
+  private subscribe(client: WebSocket, channels: string[]): void {
+    const added: string[] = [];
+    const refreshed: string[] = [];
+
+    for (const channel of channels) {
+      let subscribers = this.channels.get(channel);
+      if (!subscribers) {
+        subscribers = new Set();
+        this.channels.set(channel, subscribers);
+        added.push(channel);
+      } else if (!subscribers.has(client)) {
+        refreshed.push(channel);
+      }
+      subscribers.add(client);
+    }
+
+    if (!this.upstream) {
+      // Everything is subscribed once the upstream opens
+      this.connectUpstream();
+      return;
+    }
+    if (this.upstream.readyState !== WebSocket.OPEN) return;
+
+    if (added.length > 0) {
+      this.upstream.send(this.protocol.subscribeUpstream(added));
+    }
+    // Incremental channels only send a snapshot on subscribe, so a late joiner needs a fresh one;
+    // existing subscribers simply apply the new snapshot too
+    if (refreshed.length > 0) {
+      this.upstream.send(this.protocol.unsubscribeUpstream(refreshed));
+      this.upstream.send(this.protocol.subscribeUpstream(refreshed));
+    }
+  }
+
+  private unsubscribe(client: WebSocket, channels: string[]): void {
+    const removed: string[] = [];
+    for (const channel of channels) {
+      const subscribers = this.channels.get(channel);
+      if (!subscribers?.delete(client)) continue;
+      if (subscribers.size === 0) {
+        this.channels.delete(channel);
+        removed.push(channel);
+      }
+    }
+
+    if (removed.length > 0 && this.upstream?.readyState === WebSocket.OPEN) {
+      this.upstream.send(this.protocol.unsubscribeUpstream(removed));
+    }
+  }
+
+  private removeClient(client: WebSocket): void {
+    if (!this.clients.delete(client)) return;
+
+    const subscribed = Array.from(this.channels)
+      .filter(([, subscribers]) => subscribers.has(client))
+      .map(([channel]) => channel);
+    this.unsubscribe(client, subscribed);
+
+    // Nobody left to serve: release the upstream until the next client arrives
+    if (this.clients.size === 0) {
+      this.closeUpstream();
+    }
+  }
+
+  private connectUpstream(): void {
+    const upstream = new WebSocket(this.upstreamUrl);
+    this.upstream = upstream;
+
+    upstream.on('open', () => {
+      console.log(`[${this.venue}] upstream connected: ${this.upstreamUrl}`);
+      this.reconnectAttempts = 0;
+      if (this.channels.size > 0) {
+        upstream.send(this.protocol.subscribeUpstream(Array.from(this.channels.keys())));
+      }
+      this.heartbeatInterval = setInterval(() => {
+        if (upstream.readyState === WebSocket.OPEN) {
+          upstream.send(this.protocol.heartbeat.message);
+        }
+      }, this.protocol.heartbeat.intervalMs);
+    });
+
+    upstream.on('message', (data) => this.handleUpstreamMessage(data.toString()));
+
+    upstream.on('error', (error) => {
+      console.warn(`[${this.venue}] upstream error:`, error.message);
+    });
+
+    upstream.on('close', () => {
+      console.log(`[${this.venue}] upstream closed`);
+      this.stopHeartbeat();
+      if (this.upstream !== upstream) return;
+      this.upstream = null;
+
+      // Reconnect with exponential backoff while clients are still attached
+      if (!this.closed && this.clients.size > 0) {
+        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
+        this.reconnectAttempts++;
+        this.reconnectTimeout = setTimeout(() => {
+          this.reconnectTimeout = null;
+          if (!this.upstream && this.clients.size > 0) this.connectUpstream();
+        }, delay);
+      }
+    });
+  }
+
+  private handleUpstreamMessage(text: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return; // plain-text heartbeat replies such as OKX's 'pong'
+    }
+
+    const channel = this.protocol.channelOf(message);
+    if (channel) {
+      this.channels.get(channel)?.forEach(client => {
+        if (client.readyState === WebSocket.OPEN) client.send(text);
+      });
+      return;
+    }
+
+    if (this.protocol.isError(message)) {
+      this.clients.forEach(client => {
+        if (client.readyState === WebSocket.OPEN) client.send(text);
+      });
+    }
+    // Upstream acks and pongs are dropped; the proxy answers clients itself
+  }
+
+  private closeUpstream(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.stopHeartbeat();
+
+    const upstream = this.upstream;
+    this.upstream = null;
+    upstream?.close();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+}
@@ -0,0 +1,25 @@
+// Proxy entry point: configuration comes from the environment
+import { createProxyServer } from './server.js';
+
+const port = Number(process.env.PORT) || 8080;
+
+createProxyServer({
+  port,
+  host: process.env.HOST,
+  upstreams: {
+    okx: process.env.OKX_UPSTREAM_URL,
+    bybit: process.env.BYBIT_UPSTREAM_URL,
+    deribit: process.env.DERIBIT_UPSTREAM_URL
+  }
+}).then(proxy => {
+  console.log(`GoQuant proxy listening on ws://localhost:${proxy.port} (/okx, /bybit, /deribit)`);
+
+  const shutdown = () => {
+    proxy.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}).catch(error => {
+  console.error('Failed to start proxy:', error);
+  process.exit(1);
+});
@@ -0,0 +1,148 @@
+// Per-venue wire protocol knowledge the proxy needs to share one upstream connection
+
+export type VenueId = 'okx' | 'bybit' | 'deribit';
+
+export type ClientRequest =
+  | { action: 'subscribe' | 'unsubscribe'; channels: string[]; replies: string[] }
+  | { action: 'ping'; replies: string[] };
+
+export interface VenueProtocol {
+  defaultUpstreamUrl: string;
+  heartbeat: { intervalMs: number; message: string };
+  // Classify a client frame; null for frames the proxy does not handle
+  parseClient(text: string): ClientRequest | null;
+  subscribeUpstream(channels: string[]): string;
+  unsubscribeUpstream(channels: string[]): string;
+  // Channel a market data frame belongs to; null for acks, pongs and other control frames
+  channelOf(message: unknown): string | null;
+  isError(message: unknown): boolean;
+}
+
+const parseJson = (text: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// OKX channels are keyed "books:BTC-USDT" (channel:instId)
+const okx: VenueProtocol = {
+  defaultUpstreamUrl: 'wss://ws.okx.com:8443/ws/v5/public',
+  heartbeat: { intervalMs: 25000, message: 'ping' },
+
+  parseClient: (text) => {
+    if (text === 'ping') return { action: 'ping', replies: ['pong'] };
+
+    const parsed = parseJson(text);
+    if (!parsed || (parsed.op !== 'subscribe' && parsed.op !== 'unsubscribe') || !Array.isArray(parsed.args)) {
+      return null;
+    }
+    const args = parsed.args as Array<{ channel: string; instId: string }>;
+    return {
+      action: parsed.op,
+      channels: args.map(arg => `${arg.channel}:${arg.instId}`),
+      replies: args.map(arg => JSON.stringify({ event: parsed.op, arg }))
+    };
+  },
+
+  subscribeUpstream: (channels) => JSON.stringify({ op: 'subscribe', args: channels.map(toOkxArg) }),
+  unsubscribeUpstream: (channels) => JSON.stringify({ op: 'unsubscribe', args: channels.map(toOkxArg) }),
+
+  channelOf: (message) => {
+    const parsed = message as { arg?: { channel?: string; instId?: string }; data?: unknown };
+    return parsed.arg?.channel && parsed.arg.instId && parsed.data
+      ? `${parsed.arg.channel}:${parsed.arg.instId}`
+      : null;
+  },
+
+  isError: (message) => (message as { event?: string }).event === 'error'
+};
+
+function toOkxArg(channel: string) {
+  const separator = channel.indexOf(':');
+  return { channel: channel.slice(0, separator), instId: channel.slice(separator + 1) };
+}
+
+// Bybit channels are topics such as "orderbook.50.BTCUSDT"
+const bybit: VenueProtocol = {
+  defaultUpstreamUrl: 'wss://stream.bybit.com/v5/public/linear',
+  heartbeat: { intervalMs: 20000, message: JSON.stringify({ op: 'ping' }) },
+
+  parseClient: (text) => {
+    const parsed = parseJson(text);
+    if (!parsed) return null;
+    if (parsed.op === 'ping') {
+      return { action: 'ping', replies: [JSON.stringify({ success: true, ret_msg: 'pong', op: 'ping' })] };
+    }
+    if ((parsed.op !== 'subscribe' && parsed.op !== 'unsubscribe') || !Array.isArray(parsed.args)) {
+      return null;
+    }
+    return {
+      action: parsed.op,
+      channels: parsed.args as string[],
+      replies: [JSON.stringify({ success: true, ret_msg: '', op: parsed.op, req_id: parsed.req_id })]
+    };
+  },
+
+  subscribeUpstream: (channels) => JSON.stringify({ op: 'subscribe', args: channels }),
+  unsubscribeUpstream: (channels) => JSON.stringify({ op: 'unsubscribe', args: channels }),
+
+  channelOf: (message) => {
+    const parsed = message as { topic?: string; data?: unknown };
+    return parsed.topic && parsed.data ? parsed.topic : null;
+  },
+
+  isError: (message) => (message as { success?: boolean }).success === false
+};
+
+// Deribit channels are JSON-RPC subscription channels such as "book.BTC-PERPETUAL.100ms"
+let deribitRequestId = 1000;
+
+const deribit: VenueProtocol = {
+  defaultUpstreamUrl: 'wss://www.deribit.com/ws/api/v2',
+  heartbeat: {
+    intervalMs: 25000,
+    message: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'public/test', params: {} })
+  },
+
+  parseClient: (text) => {
+    const parsed = parseJson(text);
+    if (!parsed) return null;
+    if (parsed.method === 'public/test') {
+      return { action: 'ping', replies: [JSON.stringify({ jsonrpc: '2.0', id: parsed.id, result: { version: 'proxy' } })] };
+    }
+    const params = parsed.params as { channels?: string[] } | undefined;
+    if ((parsed.method !== 'public/subscribe' && parsed.method !== 'public/unsubscribe') || !params?.channels) {
+      return null;
+    }
+    return {
+      action: parsed.method === 'public/subscribe' ? 'subscribe' : 'unsubscribe',
+      channels: params.channels,
+      replies: [JSON.stringify({ jsonrpc: '2.0', id: parsed.id, result: params.channels })]
+    };
+  },
+
+  subscribeUpstream: (channels) => JSON.stringify({
+    jsonrpc: '2.0',
+    id: deribitRequestId++,
+    method: 'public/subscribe',
+    params: { channels }
+  }),
+  unsubscribeUpstream: (channels) => JSON.stringify({
+    jsonrpc: '2.0',
+    id: deribitRequestId++,
+    method: 'public/unsubscribe',
+    params: { channels }
+  }),
+
+  channelOf: (message) => {
+    const parsed = message as { method?: string; params?: { channel?: string } };
+    return parsed.method === 'subscription' && parsed.params?.channel ? parsed.params.channel : null;
+  },
+
+  isError: (message) => Boolean((message as { error?: unknown }).error)
+};
+
+export const VENUE_PROTOCOLS: Record<VenueId, VenueProtocol> = { okx, bybit, deribit };
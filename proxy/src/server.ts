@@ -0,0 +1,70 @@
+// HTTP + WebSocket server exposing /okx, /bybit and /deribit routes backed by shared upstream hubs
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { UpstreamHub } from './hub.js';
+import { VENUE_PROTOCOLS, type VenueId } from './protocols.js';
+
+export interface ProxyServerOptions {
+  port: number; // 0 picks a free port
+  host?: string;
+  // Override upstream endpoints, e.g. to point at a local fake exchange
+  upstreams?: Partial<Record<VenueId, string>>;
+}
+
+export interface ProxyServer {
+  port: number;
+  server: Server;
+  hubs: Record<VenueId, UpstreamHub>;
+  close: () => Promise<void>;
+}
+
+const isVenue = (value: string): value is VenueId => value in VENUE_PROTOCOLS;
+
+export function createProxyServer(options: ProxyServerOptions): Promise<ProxyServer> {
+  const hubs = Object.fromEntries(
+    (Object.keys(VENUE_PROTOCOLS) as VenueId[]).map(venue => {
+      const protocol = VENUE_PROTOCOLS[venue];
+      const upstreamUrl = options.upstreams?.[venue] || protocol.defaultUpstreamUrl;
+      return [venue, new UpstreamHub(venue, protocol, upstreamUrl)];
+    })
+  ) as Record<VenueId, UpstreamHub>;
+
+  const server = createServer((request, response) => {
+    if (request.url === '/health') {
+      response.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      response.end(JSON.stringify({ status: 'ok', venues: Object.values(hubs).map(hub => hub.stats()) }));
+      return;
+    }
+    response.writeHead(404);
+    response.end();
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (request, socket, head) => {
+    const venue = new URL(request.url || '/', 'http://localhost').pathname.slice(1);
+    if (!isVenue(venue)) {
+      socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(request, socket, head, client => hubs[venue].addClient(client));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        server,
+        hubs,
+        close: () => new Promise(done => {
+          Object.values(hubs).forEach(hub => hub.close());
+          wss.close();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { createProxyServer, type ProxyServer } from '../src/server.js';
+
+interface OkxArg {
+  channel: string;
+  instId: string;
+}
+
+// Speaks just enough of the OKX public API: acks subscriptions and answers each with a snapshot
+class FakeOkx {
+  connections = 0;
+  requests: Array<{ op: string; args: OkxArg[] }> = [];
+  private server: WebSocketServer;
+  private sockets = new Set<WebSocket>();
+  private seqId = 100;
+
+  private constructor(server: WebSocketServer) {
+    this.server = server;
+    server.on('connection', socket => {
+      this.connections++;
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      socket.on('message', data => {
+        const request = JSON.parse(data.toString()) as { op: string; args: OkxArg[] };
+        this.requests.push(request);
+        request.args.forEach(arg => {
+          socket.send(JSON.stringify({ event: request.op, arg }));
+          if (request.op === 'subscribe') socket.send(JSON.stringify(this.book('snapshot', arg)));
+        });
+      });
+    });
+  }
+
+  static start(): Promise<FakeOkx> {
+    return new Promise(resolve => {
+      const server: WebSocketServer = new WebSocketServer({ port: 0, host: '127.0.0.1' }, () => resolve(new FakeOkx(server)));
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  publishUpdate(arg: OkxArg): void {
+    this.sockets.forEach(socket => socket.send(JSON.stringify(this.book('update', arg))));
+  }
+
+  close(): Promise<void> {
+    this.sockets.forEach(socket => socket.terminate());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private book(action: 'snapshot' | 'update', arg: OkxArg) {
+    const prevSeqId = this.seqId;
+    this.seqId++;
+    return {
+      arg,
+      action,
+      data: [{ bids: [['67234.5', '0.4', '0', '1']], asks: [['67234.6', '0.7', '0', '1']], prevSeqId, seqId: this.seqId }]
+    };
+  }
+}
+
+interface OkxFrame {
+  type?: string;
+  event?: string;
+  action?: string;
+  data?: Array<{ seqId: number }>;
+}
+
+// Buffers frames so a test can wait for the next one matching a predicate
+class TestClient {
+  private socket: WebSocket;
+  private frames: OkxFrame[] = [];
+  private waiters: Array<() => void> = [];
+
+  private constructor(socket: WebSocket) {
+    this.socket = socket;
+    socket.on('message', data => {
+      this.frames.push(JSON.parse(data.toString()));
+      this.waiters.splice(0).forEach(wake => wake());
+    });
+  }
+
+  static connect(url: string): Promise<TestClient> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      const client = new TestClient(socket);
+      socket.once('open', () => resolve(client));
+      socket.once('error', reject);
+    });
+  }
+
+  send(message: unknown): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  async next(matches: (frame: OkxFrame) => boolean, timeoutMs = 2000): Promise<OkxFrame> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = this.frames.findIndex(matches);
+      if (index >= 0) return this.frames.splice(index, 1)[0];
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error('Timed out waiting for a frame');
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  close(): void {
+    this.socket.terminate();
+  }
+}
+
+const BOOK = { channel: 'books', instId: 'BTC-USDT' };
+const isSnapshot = (frame: OkxFrame) => frame.action === 'snapshot';
+const isUpdate = (frame: OkxFrame) => frame.action === 'update';
+
+describe('proxy server', () => {
+  let upstream: FakeOkx;
+  let proxy: ProxyServer;
+  const clients: TestClient[] = [];
+
+  const connectClient = async () => {
+    const client = await TestClient.connect(`ws://127.0.0.1:${proxy.port}/okx`);
+    clients.push(client);
+    await client.next(frame => frame.type === 'connected');
+    return client;
+  };
+
+  beforeEach(async () => {
+    upstream = await FakeOkx.start();
+    proxy = await createProxyServer({ port: 0, host: '127.0.0.1', upstreams: { okx: upstream.url } });
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.close());
+    await proxy.close();
+    await upstream.close();
+  });
+
+  it('shares one upstream between clients and gives a late joiner a fresh snapshot', async () => {
+    const first = await connectClient();
+    first.send({ op: 'subscribe', args: [BOOK] });
+    expect(await first.next(frame => frame.event === 'subscribe')).toMatchObject({ arg: BOOK });
+    const firstSnapshot = await first.next(isSnapshot);
+
+    const second = await connectClient();
+    second.send({ op: 'subscribe', args: [BOOK] });
+    const lateSnapshot = await second.next(isSnapshot);
+
+    // The channel was resubscribed upstream, so the late joiner's snapshot is newer, and the first client sees it too
+    expect(lateSnapshot.data?.[0].seqId).toBeGreaterThan(firstSnapshot.data?.[0].seqId ?? Infinity);
+    expect((await first.next(isSnapshot)).data?.[0].seqId).toBe(lateSnapshot.data?.[0].seqId);
+    expect(upstream.connections).toBe(1);
+    expect(upstream.requests.map(request => request.op)).toEqual(['subscribe', 'unsubscribe', 'subscribe']);
+
+    upstream.publishUpdate(BOOK);
+    const [firstUpdate, secondUpdate] = await Promise.all([first.next(isUpdate), second.next(isUpdate)]);
+    expect(firstUpdate).toEqual(secondUpdate);
+  });
+
+  it('reports clients and channels per venue on /health', async () => {
+    const client = await connectClient();
+    client.send({ op: 'subscribe', args: [BOOK] });
+    await client.next(isSnapshot);
+
+    const response = await fetch(`http://127.0.0.1:${proxy.port}/health`);
+    expect(response.status).toBe(200);
+    const health = await response.json();
+    expect(health.status).toBe('ok');
+    expect(health.venues).toContainEqual({
+      venue: 'okx',
+      clients: 1,
+      channels: { 'books:BTC-USDT': 1 },
+      upstreamConnected: true
+    });
+    expect(health.venues).toContainEqual({ venue: 'bybit', clients: 0, channels: {}, upstreamConnected: false });
+  });
+
+  it('rejects upgrades for unknown venues', async () => {
+    await expect(TestClient.connect(`ws://127.0.0.1:${proxy.port}/kraken`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EXCHANGE_APIS } from '@/lib/exchanges';
+import okxInstruments from '@/lib/__fixtures__/instruments/okx.json';
+import bybitPage1 from '@/lib/__fixtures__/instruments/bybit-page1.json';
+import bybitPage2 from '@/lib/__fixtures__/instruments/bybit-page2.json';
+import deribitInstruments from '@/lib/__fixtures__/instruments/deribit.json';
+import binanceExchangeInfo from '@/lib/__fixtures__/instruments/binance.json';
+
+// The route caches in module scope, so every test loads a fresh copy
+const loadRoute = () => import('./route');
+
+const stubVenues = (payloads: { [venue: string]: unknown }) => {
+  const fetchMock = vi.fn((url: string) => {
+    const venue = Object.keys(EXCHANGE_APIS).find(v => url.startsWith(EXCHANGE_APIS[v].instruments));
+    const payload = venue ? payloads[venue] : undefined;
+    return Promise.resolve(payload
+      ? { ok: true, status: 200, json: () => Promise.resolve(payload) }
+      : { ok: false, status: 503, json: () => Promise.resolve({}) });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('GET /api/instruments', () => {
+  it('serves the venues that answered, reports the rest and retries sooner', async () => {
+    const fetchMock = stubVenues({ okx: okxInstruments, bybit: bybitPage2, binance: binanceExchangeInfo });
+    const { GET } = await loadRoute();
+
+    const response = await GET();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toMatch(/max-age=(59|60)$/);
+
+    const catalogue = await response.json();
+    expect(Object.keys(catalogue.listedAt).sort()).toEqual(['binance', 'bybit', 'okx']);
+    expect(catalogue.errors).toEqual({ deribit: 'HTTP 503' });
+    expect(catalogue.mappings['BTC-USD']).toEqual({ okx: 'BTC-USDT', binance: 'BTCUSDT' });
+
+    // Served from the cache until it expires
+    const calls = fetchMock.mock.calls.length;
+    await GET();
+    expect(fetchMock).toHaveBeenCalledTimes(calls);
+  });
+
+  it('serves a truncated Bybit listing but reports it and retries sooner', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // The first page's cursor is answered with the first page again, so paging runs into the cap
+    stubVenues({ okx: okxInstruments, bybit: bybitPage1, deribit: deribitInstruments, binance: binanceExchangeInfo });
+    const { GET } = await loadRoute();
+
+    const response = await GET();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toMatch(/max-age=(59|60)$/);
+
+    const catalogue = await response.json();
+    expect(catalogue.listedAt.bybit).toEqual(expect.any(Number));
+    expect(catalogue.errors).toEqual({ bybit: expect.stringContaining('Listing truncated after 5 pages') });
+    expect(catalogue.mappings['BTC-USD'].bybit).toBe('BTCUSDT');
+  });
+
+  it('answers 502 when no venue could be listed', async () => {
+    stubVenues({});
+    const { GET } = await loadRoute();
+
+    const response = await GET();
+    expect(response.status).toBe(502);
+    expect(Object.keys((await response.json()).errors).sort()).toEqual(['binance', 'bybit', 'deribit', 'okx']);
+  });
+});
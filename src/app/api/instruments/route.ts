@@ -0,0 +1,64 @@
+// Symbol catalogue built from every venue's instrument listing, cached in server memory
+import { NextResponse } from 'next/server';
+import { EXCHANGE_APIS } from '@/lib/exchanges';
+import { SYMBOLS } from '@/lib/orderFormOptions';
+import { buildCatalogue, fetchVenueListings, type InstrumentListing, type SymbolCatalogue } from '@/lib/symbolCatalogue';
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const RETRY_AFTER_MS = 60 * 1000; // sooner when a venue failed to answer
+const VENUES = Object.keys(EXCHANGE_APIS);
+
+interface CatalogueCache {
+  listings: { [venue: string]: InstrumentListing[] };
+  listedAt: { [venue: string]: number };
+  catalogue: SymbolCatalogue;
+  expiresAt: number;
+}
+
+let cache: CatalogueCache | null = null;
+let refreshing: Promise<CatalogueCache> | null = null;
+
+// A venue that fails to answer keeps its previous listing until the next refresh; a truncated
+// listing is served but reported like a failure, so it is retried sooner
+async function refresh(previous: CatalogueCache | null): Promise<CatalogueCache> {
+  const listings = { ...previous?.listings };
+  const listedAt = { ...previous?.listedAt };
+  const errors: SymbolCatalogue['errors'] = {};
+
+  const results = await Promise.allSettled(VENUES.map(venue => fetchVenueListings(venue)));
+  results.forEach((result, i) => {
+    const venue = VENUES[i];
+    if (result.status === 'fulfilled') {
+      listings[venue] = result.value.listings;
+      listedAt[venue] = Date.now();
+      if (result.value.truncated) errors[venue] = result.value.truncated;
+    } else {
+      errors[venue] = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    }
+  });
+
+  return {
+    listings,
+    listedAt,
+    catalogue: { ...buildCatalogue(Object.values(listings).flat(), SYMBOLS), listedAt, errors },
+    expiresAt: Date.now() + (Object.keys(errors).length > 0 ? RETRY_AFTER_MS : CACHE_TTL_MS)
+  };
+}
+
+export async function GET() {
+  if (!cache || cache.expiresAt <= Date.now()) {
+    // Concurrent requests share one refresh
+    refreshing ??= refresh(cache).finally(() => {
+      refreshing = null;
+    });
+    cache = await refreshing;
+  }
+
+  const { catalogue } = cache;
+  if (Object.keys(catalogue.listedAt).length === 0) {
+    return NextResponse.json(catalogue, { status: 502 });
+  }
+  return NextResponse.json(catalogue, {
+    headers: { 'Cache-Control': `public, max-age=${Math.max(0, Math.floor((cache.expiresAt - Date.now()) / 1000))}` }
+  });
+}
@@ -2,8 +2,14 @@
 import { useState, useEffect } from "react";
 import OrderForm from "@/components/OrderForm";
 import OrderbookViewer from "@/components/OrderbookViewer";
-import { VENUES } from "@/lib/exchanges";
+import ConsolidatedOrderbook from "@/components/ConsolidatedOrderbook";
+import OrderRoutingPanel from "@/components/OrderRoutingPanel";
+import SymbolPicker from "@/components/SymbolPicker";
+import { useVenueBooks } from "@/hooks/useVenueBooks";
+import { useSymbolCatalogue } from "@/hooks/useSymbolCatalogue";
+import { VENUES, listsSymbol } from "@/lib/exchanges";
 import { SYMBOLS } from "@/lib/orderFormOptions";
+import type { AlgoParams } from "@/lib/executionAlgos";
 
 interface SimulatedOrder {
   venue: string;
@@ -11,14 +17,26 @@ interface SimulatedOrder {
   orderType: string;
   side: string;
   price?: string;
-  quantity: string;
+  quantity: string; // quote notional when sizing is "quote"
+  sizing?: string;
   timing: number;
+  algo?: AlgoParams;
+  stopPrice?: string;
+  trigger?: string;
+  timeInForce?: string;
+  postOnly?: boolean;
 }
 
 export default function Home() {
   const [selectedVenue, setSelectedVenue] = useState(VENUES[0].value);
   const [selectedSymbol, setSelectedSymbol] = useState(SYMBOLS[0]?.value || "BTC-USD");
   const [simulatedOrder, setSimulatedOrder] = useState<SimulatedOrder | null>(null);
+  const [showConsolidated, setShowConsolidated] = useState(false);
+  // Selected fee tier per venue; venues without an entry use their entry tier
+  const [feeTiers, setFeeTiers] = useState<{ [venue: string]: string }>({});
+  // Multi-venue books feed both the consolidated view and order routing
+  const venueBooks = useVenueBooks(selectedSymbol, showConsolidated || simulatedOrder !== null);
+  const catalogue = useSymbolCatalogue();
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -30,9 +48,19 @@ export default function Home() {
   const handleOrderSimulation = (order: SimulatedOrder) => {
     setSelectedVenue(order.venue);
     setSelectedSymbol(order.symbol);
+    setShowConsolidated(false);
     setSimulatedOrder(order);
   };
 
+  // A live venue that does not list the pair gives way to the first one that does, or the demo market
+  const selectSymbol = (symbol: string) => {
+    setSelectedSymbol(symbol);
+    if (!listsSymbol(symbol, selectedVenue)) {
+      const listing = VENUES.find(v => v.value !== "demo" && listsSymbol(symbol, v.value));
+      setSelectedVenue(listing?.value || "demo");
+    }
+  };
+
   const clearSimulation = () => {
     setSimulatedOrder(null);
   };
@@ -120,7 +148,12 @@ export default function Home() {
           {/* Order Form Section */}
           <div className="lg:col-span-1 order-2 lg:order-1">
             <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-4 sm:p-6 lg:sticky lg:top-24">
-              <OrderForm onSimulate={handleOrderSimulation} />
+              <OrderForm
+                onSimulate={handleOrderSimulation}
+                symbols={catalogue.symbols}
+                feeTiers={feeTiers}
+                onFeeTierChange={(venue, tier) => setFeeTiers(prev => ({ ...prev, [venue]: tier }))}
+              />
             </div>
           </div>
 
@@ -135,7 +168,7 @@ export default function Home() {
                       <h3 className="text-white font-semibold">Active Simulation</h3>
                       <p className="text-white/70 text-sm break-words">
                         {simulatedOrder.orderType.toUpperCase()} {simulatedOrder.side.toUpperCase()} 
-                        {' '}{simulatedOrder.quantity} {selectedSymbol} on {VENUES.find(v => v.value === simulatedOrder.venue)?.label}
+                        {' '}{simulatedOrder.sizing === "quote" ? `$${simulatedOrder.quantity} of` : simulatedOrder.quantity} {selectedSymbol} on {VENUES.find(v => v.value === simulatedOrder.venue)?.label}
                         {simulatedOrder.price && ` at $${simulatedOrder.price}`}
                       </p>
                     </div>
@@ -151,20 +184,38 @@ export default function Home() {
 
               {/* Venue Switcher */}
               <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
-                <h3 className="text-white font-semibold mb-3">Exchange Venue</h3>
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="text-white font-semibold">Exchange Venue</h3>
+                  <button
+                    onClick={() => setShowConsolidated(!showConsolidated)}
+                    className={`px-3 py-1 rounded-lg border text-xs sm:text-sm transition-all ${
+                      showConsolidated
+                        ? 'bg-purple-500/20 border-purple-400 text-purple-300'
+                        : 'bg-white/5 border-white/20 text-white/70 hover:bg-white/10'
+                    }`}
+                  >
+                    All Venues (Consolidated)
+                  </button>
+                </div>
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
                   {VENUES.map((venue) => (
                     <button
                       key={venue.value}
-                      onClick={() => setSelectedVenue(venue.value)}
-                      className={`p-3 rounded-lg border transition-all ${
-                        selectedVenue === venue.value
+                      onClick={() => {
+                        setSelectedVenue(venue.value);
+                        setShowConsolidated(false);
+                      }}
+                      disabled={!listsSymbol(selectedSymbol, venue.value)}
+                      className={`p-3 rounded-lg border transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                        !showConsolidated && selectedVenue === venue.value
                           ? 'bg-blue-500/20 border-blue-400 text-blue-300'
                           : 'bg-white/5 border-white/20 text-white/70 hover:bg-white/10'
                       }`}
                     >
                       <div className="font-semibold text-sm sm:text-base">{venue.label}</div>
-                      <div className="text-xs opacity-75 hidden sm:block">{venue.description}</div>
+                      <div className="text-xs opacity-75 hidden sm:block">
+                        {listsSymbol(selectedSymbol, venue.value) ? venue.description : "Does not list this pair"}
+                      </div>
                     </button>
                   ))}
                 </div>
@@ -173,30 +224,29 @@ export default function Home() {
               {/* Symbol Switcher */}
               <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
                 <h3 className="text-white font-semibold mb-3">Trading Pair</h3>
-                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-                  {SYMBOLS.map((symbol) => (
-                    <button
-                      key={symbol.value}
-                      onClick={() => setSelectedSymbol(symbol.value)}
-                      className={`p-3 rounded-lg border transition-all ${
-                        selectedSymbol === symbol.value
-                          ? 'bg-green-500/20 border-green-400 text-green-300'
-                          : 'bg-white/5 border-white/20 text-white/70 hover:bg-white/10'
-                      }`}
-                    >
-                      <div className="font-semibold text-sm sm:text-base">{symbol.label}</div>
-                      <div className="text-xs opacity-75 hidden sm:block">{symbol.description}</div>
-                    </button>
-                  ))}
-                </div>
+                <SymbolPicker symbols={catalogue.symbols} value={selectedSymbol} onChange={selectSymbol} />
+                <p className="text-white/50 text-xs mt-2">
+                  {catalogue.status === "loading" && "Loading venue listings..."}
+                  {catalogue.status === "ready" && `${catalogue.symbols.length} pairs listed across venues`}
+                  {catalogue.status === "fallback" && "Venue listings unavailable; showing built-in pairs"}
+                </p>
               </div>
 
               {/* Main Orderbook */}
-              <OrderbookViewer 
-                venue={selectedVenue} 
-                symbol={selectedSymbol} 
-                simulatedOrder={simulatedOrder} 
-              />
+              {showConsolidated ? (
+                <ConsolidatedOrderbook symbol={selectedSymbol} books={venueBooks.books} status={venueBooks.status} />
+              ) : (
+                <OrderbookViewer 
+                  venue={selectedVenue} 
+                  symbol={selectedSymbol} 
+                  simulatedOrder={simulatedOrder} 
+                  feeTiers={feeTiers}
+                />
+              )}
+
+              {simulatedOrder && (
+                <OrderRoutingPanel symbol={selectedSymbol} order={simulatedOrder} books={venueBooks.books} feeTiers={feeTiers} />
+              )}
             </div>
           </div>
         </div>
@@ -263,7 +313,7 @@ export default function Home() {
               </div>
               <h3 className="text-lg sm:text-xl font-semibold text-white mb-2">Multi-Venue Support</h3>
               <p className="text-white/70 text-sm sm:text-base">
-                Compare orderbook data across multiple exchanges for optimal execution strategies.
+                Consolidated book merging every connected exchange, with venue attribution, best bid/offer and depth share.
               </p>
             </div>
           </div>
@@ -0,0 +1,163 @@
+import { useMemo } from "react";
+import { VENUES, VENUE_COLORS, formatSymbolForDisplay } from "@/lib/exchanges";
+import { calculateOrderbookImbalance, formatCurrency, formatPercentage, formatQuantity } from "@/lib/marketCalculations";
+import { consolidateBooks, getNbbo, getVenueDepthShare, type ConsolidatedLevel, type VenueBook } from "@/lib/consolidatedBook";
+import { getCombinedPrecision } from "@/lib/instruments";
+import type { VenueStatus } from "@/hooks/useVenueBooks";
+
+export interface ConsolidatedOrderbookProps {
+  symbol: string;
+  books: { [venue: string]: VenueBook }; // live venues only
+  status: { [venue: string]: VenueStatus };
+}
+
+const venueLabel = (venue: string) => VENUES.find(v => v.value === venue)?.label || venue;
+
+const ConsolidatedOrderbook = ({ symbol, books, status }: ConsolidatedOrderbookProps) => {
+  const consolidated = useMemo(() => consolidateBooks(books, symbol), [books, symbol]);
+  const nbbo = useMemo(() => getNbbo(consolidated), [consolidated]);
+  const depthShare = useMemo(() => getVenueDepthShare(consolidated), [consolidated]);
+  const imbalance = calculateOrderbookImbalance(consolidated);
+  const precision = getCombinedPrecision(symbol, Object.keys(books));
+
+  const renderVenues = (level: ConsolidatedLevel) => (
+    <div className="flex flex-wrap gap-1">
+      {level.venues.map(({ venue, quantity }) => (
+        <span
+          key={venue}
+          title={`${venueLabel(venue)}: ${formatQuantity(quantity, precision)}`}
+          className={`px-1 rounded bg-white/5 text-[10px] ${VENUE_COLORS[venue]?.text || "text-white/70"}`}
+        >
+          {venueLabel(venue)}
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderSide = (levels: ConsolidatedLevel[], side: "bids" | "asks") => (
+    <div>
+      <h3 className={`${side === "bids" ? "text-green-400" : "text-red-400"} font-semibold mb-3 flex items-center gap-2`}>
+        <span className={`w-3 h-3 ${side === "bids" ? "bg-green-400" : "bg-red-400"} rounded`}></span>
+        {side === "bids" ? "Bids" : "Asks"}
+      </h3>
+      <div className="h-64 sm:h-80 overflow-y-auto bg-black/20 rounded-lg border border-white/10">
+        <div className="sticky top-0 bg-black/40 backdrop-blur-sm z-10">
+          <div className="grid grid-cols-3 gap-2 text-xs text-white/60 p-2 border-b border-white/20">
+            <div>Price</div>
+            <div>Quantity</div>
+            <div>Venues</div>
+          </div>
+        </div>
+        <div className="space-y-1 p-2">
+          {levels.map(level => (
+            <div key={`${side}-${level.price}`} className="grid grid-cols-3 gap-2 text-xs sm:text-sm py-1 px-2 rounded hover:bg-white/5">
+              <div className={`${side === "bids" ? "text-green-400" : "text-red-400"} font-mono`}>{formatCurrency(level.price, precision)}</div>
+              <div className="text-white font-mono">{formatQuantity(level.quantity, precision)}</div>
+              {renderVenues(level)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-3 sm:p-4 bg-gradient-to-br from-gray-900 to-black border border-white/20 rounded-xl shadow-2xl overflow-hidden">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 gap-3">
+        <h2 className="font-bold text-white text-lg sm:text-xl">
+          Consolidated Orderbook
+          <span className="text-white/70 text-sm sm:text-base ml-2 block sm:inline">
+            ({formatSymbolForDisplay(symbol)})
+          </span>
+        </h2>
+        <div className="flex flex-wrap gap-3 text-xs">
+          {Object.keys(status).map(venue => (
+            <span key={venue} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-full ${
+                status[venue] === "live" ? "bg-green-400" :
+                status[venue] === "demo" ? "bg-yellow-400" :
+                status[venue] === "down" ? "bg-red-400" : "bg-white/30"
+              }`}></span>
+              <span className={VENUE_COLORS[venue]?.text || "text-white/70"}>{venueLabel(venue)}</span>
+              {status[venue] === "demo" && <span className="text-white/40">(excluded)</span>}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {consolidated.bids.length === 0 && consolidated.asks.length === 0 ? (
+        <div className="py-8 text-center text-white/60 text-sm">Waiting for live data from connected venues...</div>
+      ) : (
+        <>
+          {/* Consolidated best bid/offer */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-4 text-sm">
+            <div className="bg-black/30 rounded-lg p-2 sm:p-3 border border-white/10">
+              <div className="text-white/60 text-xs">Best Bid</div>
+              <div className="text-green-400 font-mono text-sm sm:text-lg">
+                {nbbo.bid ? formatCurrency(nbbo.bid.price, precision) : "-"}
+              </div>
+              <div className="text-white/40 text-xs">{nbbo.bid?.venues.map(venueLabel).join(", ")}</div>
+            </div>
+            <div className="bg-black/30 rounded-lg p-2 sm:p-3 border border-white/10">
+              <div className="text-white/60 text-xs">Best Ask</div>
+              <div className="text-red-400 font-mono text-sm sm:text-lg">
+                {nbbo.ask ? formatCurrency(nbbo.ask.price, precision) : "-"}
+              </div>
+              <div className="text-white/40 text-xs">{nbbo.ask?.venues.map(venueLabel).join(", ")}</div>
+            </div>
+            <div className="bg-black/30 rounded-lg p-2 sm:p-3 border border-white/10">
+              <div className="text-white/60 text-xs">Spread</div>
+              <div className={`font-mono text-sm sm:text-lg ${nbbo.crossed ? "text-yellow-400" : "text-white"}`}>
+                {formatCurrency(nbbo.spread, precision)}
+              </div>
+              <div className="text-white/40 text-xs">
+                {nbbo.crossed ? "Crossed across venues" : formatPercentage(nbbo.spreadPercentage)}
+              </div>
+            </div>
+            <div className="bg-black/30 rounded-lg p-2 sm:p-3 border border-white/10">
+              <div className="text-white/60 text-xs">Imbalance</div>
+              <div className={`font-mono text-sm sm:text-lg ${
+                imbalance.interpretation === "bullish" ? "text-green-400" :
+                imbalance.interpretation === "bearish" ? "text-red-400" : "text-white"
+              }`}>
+                {formatPercentage(imbalance.ratio * 100)}
+              </div>
+              <div className="text-white/40 text-xs capitalize">
+                {imbalance.strength} {imbalance.interpretation}
+              </div>
+            </div>
+          </div>
+
+          {/* Per-venue share of displayed depth */}
+          <div className="mb-4">
+            <div className="flex h-3 rounded overflow-hidden bg-white/10">
+              {depthShare.map(({ venue, share }) => (
+                <div
+                  key={venue}
+                  className={VENUE_COLORS[venue]?.bg || "bg-white/40"}
+                  style={{ width: `${share * 100}%` }}
+                  title={`${venueLabel(venue)}: ${formatPercentage(share * 100)}`}
+                ></div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 mt-2 text-xs">
+              {depthShare.map(({ venue, share, bidQuantity, askQuantity }) => (
+                <span key={venue} className={VENUE_COLORS[venue]?.text || "text-white/70"}>
+                  {venueLabel(venue)} {formatPercentage(share * 100, 1)}
+                  <span className="text-white/40"> (bid {formatQuantity(bidQuantity, 2)} / ask {formatQuantity(askQuantity, 2)})</span>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+            {renderSide(consolidated.bids, "bids")}
+            {renderSide(consolidated.asks, "asks")}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConsolidatedOrderbook;
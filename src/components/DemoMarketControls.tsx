@@ -0,0 +1,71 @@
+import { useState } from "react";
+
+export const DEMO_VOLATILITY_SCALES = [
+  { label: "Calm", value: 0.5 },
+  { label: "Normal", value: 1 },
+  { label: "Volatile", value: 3 },
+  { label: "Turbulent", value: 10 },
+];
+
+export interface DemoSettings {
+  seed: number; // same seed and volatility, same simulated market
+  volatilityScale: number; // multiplies the symbol's configured volatility
+}
+
+export interface DemoMarketControlsProps {
+  settings: DemoSettings;
+  onChange: (settings: DemoSettings) => void;
+}
+
+const buttonClass = "px-2 py-1 border rounded text-xs transition bg-white/10 border-white/30 text-white/80 hover:bg-white/20";
+
+const DemoMarketControls = ({ settings, onChange }: DemoMarketControlsProps) => {
+  // Edited as text and applied on commit, so typing a seed does not restart the market per keystroke
+  const [seedDraft, setSeedDraft] = useState<string | null>(null);
+
+  const commitSeed = () => {
+    if (seedDraft === null) return;
+    const seed = Number(seedDraft);
+    if (Number.isInteger(seed) && seed >= 0 && seed !== settings.seed) onChange({ ...settings, seed });
+    setSeedDraft(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mt-2 text-xs text-white/60">
+      <label className="flex items-center gap-2">
+        Seed
+        <input
+          type="text"
+          inputMode="numeric"
+          value={seedDraft ?? String(settings.seed)}
+          onChange={e => setSeedDraft(e.target.value)}
+          onBlur={commitSeed}
+          onKeyDown={e => e.key === "Enter" && commitSeed()}
+          className="w-24 bg-gray-900 border border-white/30 rounded px-2 py-1 text-white font-mono text-xs focus:outline-none focus:border-blue-400"
+        />
+      </label>
+      <button
+        onClick={() => onChange({ ...settings, seed: Math.floor(Math.random() * 1000000) })}
+        className={buttonClass}
+      >
+        New Seed
+      </button>
+      <label className="flex items-center gap-2">
+        Volatility
+        <select
+          value={settings.volatilityScale}
+          onChange={e => onChange({ ...settings, volatilityScale: Number(e.target.value) })}
+          className="bg-gray-900 border border-white/30 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-400"
+        >
+          {DEMO_VOLATILITY_SCALES.map(option => (
+            <option key={option.value} value={option.value} className="bg-gray-900 text-white">
+              {option.label} ({option.value}×)
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default DemoMarketControls;
@@ -1,186 +1,337 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { formatCurrency, formatQuantity } from '@/lib/marketCalculations';
+import type { DisplayPrecision } from '@/lib/instruments';
+import {
+  DEFAULT_DEPTH_VIEW,
+  bookHalfRange,
+  clampView,
+  cumulativeDepth,
+  depthAt,
+  depthValue,
+  formatCompact,
+  niceTicks,
+  tickDecimals,
+  viewRange,
+  type DepthMode,
+  type DepthPoint,
+  type DepthView
+} from '@/lib/depthChart';
 
 interface DepthChartProps {
   bids: { price: number; quantity: number }[];
   asks: { price: number; quantity: number }[];
-  width?: number;
   height?: number;
+  instrument?: DisplayPrecision;
   simulatedOrder?: {
     side: string;
     price?: string;
     quantity: string;
   } | null;
+  onPick?: (side: 'bids' | 'asks', price: number, sweep: DepthPoint) => void; // a point on the curve was clicked
 }
 
-export default function DepthChart({ 
-  bids, 
-  asks, 
-  width = 400, 
-  height = 200, 
-  simulatedOrder 
+// Room for depth labels on the left and price labels underneath
+const AXIS_LEFT = 56;
+const AXIS_BOTTOM = 20;
+const PAD_TOP = 8;
+const PAD_RIGHT = 8;
+const WHEEL_ZOOM_RATE = 0.0015;
+const DRAG_THRESHOLD_PX = 3; // smaller movements still count as a click
+
+const COLORS = {
+  bids: '#22c55e',
+  asks: '#ef4444',
+  bidsFill: 'rgba(34, 197, 94, 0.2)',
+  asksFill: 'rgba(239, 68, 68, 0.2)',
+  grid: 'rgba(255, 255, 255, 0.1)',
+  label: 'rgba(255, 255, 255, 0.6)',
+  spread: 'rgba(255, 255, 0, 0.1)',
+  crosshair: 'rgba(255, 255, 255, 0.5)'
+};
+
+const formatPriceTick = (price: number, decimals: number) =>
+  price.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+export default function DepthChart({
+  bids,
+  asks,
+  height = 200,
+  instrument,
+  simulatedOrder,
+  onPick
 }: DepthChartProps) {
-  const [chartDimensions, setChartDimensions] = useState({ width, height });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [mode, setMode] = useState<DepthMode>('base');
+  const [view, setView] = useState<DepthView>(DEFAULT_DEPTH_VIEW);
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const dragRef = useRef<{ x: number; offset: number; moved: boolean } | null>(null);
+  // Read by the wheel listener, which is attached once
+  const halfRangeRef = useRef(0);
+
+  // The chart fills its container instead of taking a fixed width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setWidth(container.clientWidth);
+    const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
+  // React's wheel handler is passive, so it cannot stop the page scrolling while zooming
   useEffect(() => {
-    const updateDimensions = () => {
-      if (typeof window !== 'undefined') {
-        const maxWidth = Math.min(width, window.innerWidth - 60);
-        const responsiveHeight = window.innerWidth < 640 ? Math.min(height, 150) : height;
-        setChartDimensions({ width: maxWidth, height: responsiveHeight });
-      }
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * WHEEL_ZOOM_RATE);
+      setView(prev => clampView({ ...prev, zoom: prev.zoom * factor }, halfRangeRef.current));
     };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
 
-    updateDimensions();
-    window.addEventListener('resize', updateDimensions);
-    
-    return () => window.removeEventListener('resize', updateDimensions);
-  }, [width, height]);
-
-  if (!bids.length && !asks.length) {
-    return (
-      <div 
-        className="flex items-center justify-center border border-white/10 rounded-lg bg-black/20"
-        style={{
-          width: chartDimensions.width,
-          height: chartDimensions.height
-        }}
-      >
-        <span className="text-white/60 text-sm">No depth data available</span>
-      </div>
-    );
-  }
-
-  // Calculate cumulative volumes
-  const depthBids = bids.reduce((acc: { price: number; cumVolume: number }[], level, index) => {
-    const prevVolume = index > 0 ? acc[index - 1].cumVolume : 0;
-    acc.push({
-      price: level.price,
-      cumVolume: prevVolume + level.quantity
+  const chartHeight = width > 0 && width < 640 ? Math.min(height, 150) : height;
+  const plot = {
+    left: AXIS_LEFT,
+    top: PAD_TOP,
+    width: Math.max(1, width - AXIS_LEFT - PAD_RIGHT),
+    height: Math.max(1, chartHeight - PAD_TOP - AXIS_BOTTOM)
+  };
+
+  const bidDepth = useMemo(() => cumulativeDepth(bids), [bids]);
+  const askDepth = useMemo(() => cumulativeDepth(asks), [asks]);
+  const hasData = bids.length > 0 || asks.length > 0;
+
+  const midPrice = bids.length && asks.length ? (bids[0].price + asks[0].price) / 2 : bids[0]?.price ?? asks[0]?.price ?? 0;
+  // A one-sided or single-level book still gets a visible price range
+  const halfRange = bookHalfRange(bids, asks, midPrice) || Math.max(midPrice * 0.001, 1e-8);
+  // The book can shrink under a panned view, so the stored view is clamped on every render
+  const activeView = clampView(view, halfRange);
+  const range = viewRange(activeView, midPrice, halfRange);
+  // Depth is scaled to what is in view, so zooming in also magnifies the levels near the touch
+  const maxDepth = Math.max(
+    depthValue(depthAt(bidDepth, 'bids', range.min), mode),
+    depthValue(depthAt(askDepth, 'asks', range.max), mode)
+  ) || 1;
+
+  const xOf = (price: number) => plot.left + ((price - range.min) / (range.max - range.min)) * plot.width;
+  const yOf = (value: number) => plot.top + plot.height - (value / maxDepth) * plot.height;
+  const priceAt = (x: number) => range.min + ((x - plot.left) / plot.width) * (range.max - range.min);
+
+  const hoverPrice = hover && hasData ? priceAt(hover.x) : null;
+  const hoverSide = hoverPrice !== null && hoverPrice < midPrice ? 'bids' : 'asks';
+  const hoverDepth = hoverPrice !== null ? depthAt(hoverSide === 'bids' ? bidDepth : askDepth, hoverSide, hoverPrice) : null;
+
+  // Redrawn after every render; the viewer already limits renders to one per frame
+  useEffect(() => {
+    halfRangeRef.current = halfRange;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(chartHeight * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, chartHeight);
+    if (!hasData) return;
+
+    ctx.font = '10px ui-monospace, SFMono-Regular, Menlo, monospace';
+    ctx.lineWidth = 1;
+
+    // Price axis
+    const priceTicks = niceTicks(range.min, range.max, Math.max(2, Math.floor(plot.width / 90)));
+    const priceDecimals = tickDecimals(priceTicks.step);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    priceTicks.ticks.forEach(tick => {
+      const x = Math.round(xOf(tick)) + 0.5;
+      ctx.strokeStyle = COLORS.grid;
+      ctx.beginPath();
+      ctx.moveTo(x, plot.top);
+      ctx.lineTo(x, plot.top + plot.height);
+      ctx.stroke();
+      ctx.fillStyle = COLORS.label;
+      ctx.fillText(formatPriceTick(tick, priceDecimals), x, plot.top + plot.height + 5);
     });
-    return acc;
-  }, []);
 
-  const depthAsks = asks.reduce((acc: { price: number; cumVolume: number }[], level, index) => {
-    const prevVolume = index > 0 ? acc[index - 1].cumVolume : 0;
-    acc.push({
-      price: level.price,
-      cumVolume: prevVolume + level.quantity
+    // Depth axis
+    const depthTicks = niceTicks(0, maxDepth, Math.max(2, Math.floor(plot.height / 40)));
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    depthTicks.ticks.forEach(tick => {
+      const y = Math.round(yOf(tick)) + 0.5;
+      ctx.strokeStyle = COLORS.grid;
+      ctx.beginPath();
+      ctx.moveTo(plot.left, y);
+      ctx.lineTo(plot.left + plot.width, y);
+      ctx.stroke();
+      ctx.fillStyle = COLORS.label;
+      ctx.fillText(mode === 'notional' ? `$${formatCompact(tick)}` : formatCompact(tick), plot.left - 6, y);
     });
-    return acc;
-  }, []);
 
-  // Find price and volume ranges
-  const allPrices = [...depthBids.map(d => d.price), ...depthAsks.map(d => d.price)];
-  const minPrice = Math.min(...allPrices);
-  const maxPrice = Math.max(...allPrices);
-  const maxVolume = Math.max(
-    depthBids.length ? depthBids[depthBids.length - 1].cumVolume : 0,
-    depthAsks.length ? depthAsks[depthAsks.length - 1].cumVolume : 0
-  );
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(plot.left, plot.top, plot.width, plot.height);
+    ctx.clip();
 
-  // Scaling functions
-  const scaleX = (price: number) => ((price - minPrice) / (maxPrice - minPrice || 1)) * chartDimensions.width;
-  const scaleY = (volume: number) => chartDimensions.height - (volume / (maxVolume || 1)) * chartDimensions.height;
-
-  // Generate path for bids (green, left side)
-  const bidPath = depthBids.length > 0 ? 
-    `M 0,${chartDimensions.height} ` + 
-    depthBids.map(d => `L ${scaleX(d.price)},${scaleY(d.cumVolume)}`).join(' ') +
-    ` L ${scaleX(depthBids[depthBids.length - 1].price)},${chartDimensions.height} Z` : '';
-
-  // Generate path for asks (red, right side)
-  const askPath = depthAsks.length > 0 ? 
-    `M ${scaleX(depthAsks[0].price)},${chartDimensions.height} ` +
-    depthAsks.map(d => `L ${scaleX(d.price)},${scaleY(d.cumVolume)}`).join(' ') +
-    ` L ${chartDimensions.width},${chartDimensions.height} Z` : '';
-
-  // Simulated order indicator
-  let orderIndicator = null;
-  if (simulatedOrder && simulatedOrder.price) {
-    const orderPrice = Number(simulatedOrder.price);
-    const x = scaleX(orderPrice);
-    const color = simulatedOrder.side === 'buy' ? '#22c55e' : '#ef4444';
-    
-    orderIndicator = (
-      <>
-        <line
-          x1={x}
-          y1={0}
-          x2={x}
-          y2={chartDimensions.height}
-          stroke={color}
-          strokeWidth={2}
-          strokeDasharray="5,5"
-          opacity={0.8}
-        />
-        <circle
-          cx={x}
-          cy={chartDimensions.height - 10}
-          r={4}
-          fill={color}
-          stroke="white"
-          strokeWidth={1}
-        />
-      </>
-    );
-  }
+    if (bids.length > 0 && asks.length > 0) {
+      ctx.fillStyle = COLORS.spread;
+      ctx.fillRect(xOf(bids[0].price), plot.top, xOf(asks[0].price) - xOf(bids[0].price), plot.height);
+    }
+
+    // Stepped areas: depth holds flat between levels and steps up at each one
+    const drawSide = (points: DepthPoint[], side: 'bids' | 'asks') => {
+      if (points.length === 0) return;
+
+      const baseline = yOf(0);
+      ctx.beginPath();
+      ctx.moveTo(xOf(points[0].price), baseline);
+      let previous = 0;
+      points.forEach(point => {
+        const x = xOf(point.price);
+        const value = depthValue(point, mode);
+        ctx.lineTo(x, yOf(previous));
+        ctx.lineTo(x, yOf(value));
+        previous = value;
+      });
+      const last = xOf(points[points.length - 1].price);
+      const edge = side === 'bids' ? Math.min(plot.left, last) : Math.max(plot.left + plot.width, last);
+      ctx.lineTo(edge, yOf(previous));
+      ctx.lineTo(edge, baseline);
+      ctx.closePath();
+      ctx.fillStyle = side === 'bids' ? COLORS.bidsFill : COLORS.asksFill;
+      ctx.fill();
+      ctx.strokeStyle = side === 'bids' ? COLORS.bids : COLORS.asks;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.lineWidth = 1;
+    };
+    drawSide(bidDepth, 'bids');
+    drawSide(askDepth, 'asks');
+
+    if (simulatedOrder?.price) {
+      const x = xOf(Number(simulatedOrder.price));
+      const color = simulatedOrder.side === 'buy' ? COLORS.bids : COLORS.asks;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([5, 5]);
+      ctx.beginPath();
+      ctx.moveTo(x, plot.top);
+      ctx.lineTo(x, plot.top + plot.height);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, plot.top + plot.height - 10, 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.lineWidth = 1;
+    }
+
+    if (hover && hoverDepth) {
+      const y = yOf(depthValue(hoverDepth, mode));
+      ctx.strokeStyle = COLORS.crosshair;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(hover.x, plot.top);
+      ctx.lineTo(hover.x, plot.top + plot.height);
+      ctx.moveTo(plot.left, y);
+      ctx.lineTo(plot.left + plot.width, y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = hoverSide === 'bids' ? COLORS.bids : COLORS.asks;
+      ctx.beginPath();
+      ctx.arc(hover.x, y, 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.restore();
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, offset: activeView.offset, moved: false };
+    setHover(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      drag.moved ||= Math.abs(e.clientX - drag.x) > DRAG_THRESHOLD_PX;
+      // Dragging right moves the view towards lower prices
+      const offset = drag.offset - ((e.clientX - drag.x) / plot.width) * (range.max - range.min);
+      setView(clampView({ zoom: activeView.zoom, offset }, halfRange));
+      return;
+    }
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const inPlot = x >= plot.left && x <= plot.left + plot.width && y >= plot.top && y <= plot.top + plot.height;
+    setHover(inPlot ? { x, y } : null);
+  };
+
+  // A press that did not drag picks the point under it: its price and the depth swept to reach it
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onPick || !hasData) return;
+
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    if (x < plot.left || x > plot.left + plot.width) return;
+    const price = priceAt(x);
+    const side = price < midPrice ? 'bids' : 'asks';
+    const sweep = depthAt(side === 'bids' ? bidDepth : askDepth, side, price);
+    onPick(side, sweep.size > 0 ? sweep.price : price, sweep);
+  };
+
+  const zoomed = activeView.zoom > 1;
+  const tooltipOnLeft = hover !== null && hover.x > width - 190;
 
   return (
     <div className="relative w-full">
-      <div className="overflow-x-auto">
-        <svg 
-          width={chartDimensions.width} 
-          height={chartDimensions.height} 
-          className="border border-white/10 rounded-lg bg-black/20 min-w-0"
-          style={{ minWidth: 300 }}
-        >
-          {/* Grid lines */}
-          <defs>
-            <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
-              <path d="M 40 0 L 0 0 0 40" fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="1"/>
-            </pattern>
-          </defs>
-          <rect width="100%" height="100%" fill="url(#grid)" />
-          
-          {/* Bid area (green) */}
-          {bidPath && (
-            <path
-              d={bidPath}
-              fill="rgba(34, 197, 94, 0.2)"
-              stroke="#22c55e"
-              strokeWidth={2}
-            />
-          )}
-          
-          {/* Ask area (red) */}
-          {askPath && (
-            <path
-              d={askPath}
-              fill="rgba(239, 68, 68, 0.2)"
-              stroke="#ef4444"
-              strokeWidth={2}
-            />
-          )}
-          
-          {/* Simulated order indicator */}
-          {orderIndicator}
-          
-          {/* Spread indicator */}
-          {bids.length > 0 && asks.length > 0 && (
-            <rect
-              x={scaleX(bids[0].price)}
-              y={0}
-              width={scaleX(asks[0].price) - scaleX(bids[0].price)}
-              height={chartDimensions.height}
-              fill="rgba(255, 255, 0, 0.1)"
-              stroke="rgba(255, 255, 0, 0.3)"
-              strokeWidth={1}
-            />
-          )}
-        </svg>
+      <div ref={containerRef} className="relative w-full" style={{ minWidth: 300 }}>
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => {
+            dragRef.current = null;
+          }}
+          onPointerLeave={() => setHover(null)}
+          onDoubleClick={() => setView(DEFAULT_DEPTH_VIEW)}
+          className="block border border-white/10 rounded-lg bg-black/20 cursor-crosshair"
+          // Vertical swipes still scroll the page; horizontal drags pan the chart
+          style={{ width: '100%', height: chartHeight, touchAction: 'pan-y' }}
+        />
+
+        {!hasData && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-white/60 text-sm">No depth data available</span>
+          </div>
+        )}
+
+        {hover && hoverPrice !== null && hoverDepth && (
+          <div
+            className="pointer-events-none absolute z-10 px-2 py-1 rounded bg-gray-900/90 border border-white/20 text-xs font-mono text-white space-y-0.5"
+            style={{ top: plot.top + 4, left: tooltipOnLeft ? hover.x - 182 : hover.x + 12, width: 170 }}
+          >
+            <div>{formatCurrency(hoverPrice, instrument ?? 2)}</div>
+            <div className={hoverSide === 'bids' ? 'text-green-400' : 'text-red-400'}>
+              {hoverSide === 'bids' ? 'Bids' : 'Asks'} {formatQuantity(hoverDepth.size, instrument ?? 4)}
+            </div>
+            <div className="text-white/70">{formatCurrency(hoverDepth.notional)}</div>
+          </div>
+        )}
       </div>
-      
-      {/* Legend */}
+
+      {/* Legend and controls */}
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mt-2 gap-2 text-xs text-white/70">
         <div className="flex flex-wrap items-center gap-3 sm:gap-4">
           <div className="flex items-center gap-1">
@@ -198,9 +349,29 @@ export default function DepthChart({
             </div>
           )}
         </div>
-        <div className="text-right text-xs">
-          <div>Price Range: ${minPrice.toFixed(2)} - ${maxPrice.toFixed(2)}</div>
-          <div>Max Volume: {maxVolume.toFixed(4)}</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-white/40">Scroll to zoom · drag to pan{onPick && ' · click to price'}</span>
+          {zoomed && (
+            <button
+              onClick={() => setView(DEFAULT_DEPTH_VIEW)}
+              className="px-2 py-1 rounded border border-white/20 text-white/60 hover:bg-white/5 transition"
+            >
+              Reset {activeView.zoom.toFixed(1)}×
+            </button>
+          )}
+          <div className="flex rounded border border-white/20 overflow-hidden">
+            {(['base', 'notional'] as DepthMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-2 py-1 transition ${
+                  mode === option ? 'bg-blue-500/20 text-blue-300' : 'text-white/60 hover:bg-white/5'
+                }`}
+              >
+                {option === 'base' ? 'Base' : 'Notional'}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
     </div>
@@ -1,6 +1,12 @@
-import { useState, useEffect } from "react";
-import { VENUES } from "@/lib/exchanges";
-import { SYMBOLS, ORDER_TYPES, SIDES, TIMINGS, QUANTITY_PRESETS } from "@/lib/orderFormOptions";
+import { useState, useEffect, useRef } from "react";
+import { VENUES, EXCHANGE_APIS, getFeeTier, listsSymbol } from "@/lib/exchanges";
+import { SYMBOLS, ORDER_TYPES, SIDES, TIMINGS, NOTIONAL_PRESETS, SIZING_MODES, TIME_IN_FORCE, STOP_TRIGGERS, getQuantityPresets } from "@/lib/orderFormOptions";
+import { isStopOrder } from "@/lib/marketCalculations";
+import { getInstrument, validateOrderSize, validatePrice, roundToIncrement, describeSizeRules } from "@/lib/instruments";
+import { DEFAULT_ALGO_PARAMS, isAlgoOrder, type AlgoParams } from "@/lib/executionAlgos";
+import type { SymbolOption } from "@/lib/symbolCatalogue";
+import SymbolPicker from "@/components/SymbolPicker";
+import { useOrderTicket, useReferencePrice } from "@/hooks/useOrderTicket";
 
 interface SimOrder {
   venue: string;
@@ -8,12 +14,21 @@ interface SimOrder {
   orderType: string;
   side: string;
   price?: string;
-  quantity: string;
+  quantity: string; // quote notional when sizing is "quote"
+  sizing: string;
   timing: number;
+  algo?: AlgoParams;
+  stopPrice?: string;
+  trigger?: string;
+  timeInForce?: string;
+  postOnly?: boolean;
 }
 
 interface OrderFormProps {
   onSimulate: (order: SimOrder) => void;
+  symbols?: SymbolOption[];
+  feeTiers: { [venue: string]: string };
+  onFeeTierChange: (venue: string, tier: string) => void;
 }
 
 interface FormErrors {
@@ -22,38 +37,93 @@ interface FormErrors {
   orderType?: string;
   side?: string;
   price?: string;
+  stopPrice?: string;
+  timeInForce?: string;
   quantity?: string;
+  duration?: string;
+  slices?: string;
+  participation?: string;
+  displayQuantity?: string;
 }
 
-export default function OrderForm({ onSimulate }: OrderFormProps) {
-  const [venue, setVenue] = useState(VENUES[0].value);
-  const [symbol, setSymbol] = useState(SYMBOLS[0].value);
-  const [orderType, setOrderType] = useState(ORDER_TYPES[0].value);
-  const [side, setSide] = useState(SIDES[0].value);
-  const [price, setPrice] = useState("");
-  const [quantity, setQuantity] = useState("");
+export default function OrderForm({ onSimulate, symbols = SYMBOLS, feeTiers, onFeeTierChange }: OrderFormProps) {
+  // Shared with the book table and depth chart, which fill in price, side and size when clicked
+  const { ticket, updateTicket } = useOrderTicket();
+  const { venue, symbol, orderType, side, price, quantity, sizing } = ticket;
+  const setVenue = (value: string) => updateTicket({ venue: value });
+  const setSymbol = (value: string) => updateTicket({ symbol: value });
+  const setOrderType = (value: string) => updateTicket({ orderType: value });
+  const setSide = (value: string) => updateTicket({ side: value });
+  const setPrice = (value: string) => updateTicket({ price: value });
+  const setQuantity = (value: string) => updateTicket({ quantity: value });
   const [timing, setTiming] = useState(TIMINGS[0].value);
+  const [stopPrice, setStopPrice] = useState("");
+  const [trigger, setTrigger] = useState(STOP_TRIGGERS[0].value);
+  const [timeInForce, setTimeInForce] = useState(TIME_IN_FORCE[0].value);
+  const [postOnly, setPostOnly] = useState(false);
+  // The user's choices on resting orders, restored when they come back from a type that cannot rest
+  const restingChoicesRef = useRef({ timeInForce: TIME_IN_FORCE[0].value, postOnly: false });
+  const [duration, setDuration] = useState(String(DEFAULT_ALGO_PARAMS.durationSeconds));
+  const [slices, setSlices] = useState(String(DEFAULT_ALGO_PARAMS.slices));
+  const [participation, setParticipation] = useState(String(DEFAULT_ALGO_PARAMS.participationRate * 100));
+  const [displayQuantity, setDisplayQuantity] = useState(String(DEFAULT_ALGO_PARAMS.displayQuantity));
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const isAlgo = isAlgoOrder(orderType);
+  const isStop = isStopOrder(orderType);
+  const takesPrice = orderType === "limit" || orderType === "stop-limit" || orderType === "iceberg";
+  const baseAsset = symbol.split("-")[0];
+  const instrument = getInstrument(symbol, venue);
+  const lotStep = instrument.lotSize * instrument.contractMultiplier;
+  const referencePrice = useReferencePrice(symbol);
+  const quantityPresets = sizing === "quote" ? NOTIONAL_PRESETS : getQuantityPresets(instrument, referencePrice);
+  const restsOnBook = orderType === "limit" || orderType === "stop-limit";
+  const isScheduled = orderType === "twap" || orderType === "vwap";
 
-  // Reset price when switching to market order
+  // Reset fields the new order type does not use; a resting type gets back the time in force and post-only last chosen for one
   useEffect(() => {
-    if (orderType === "market") {
-      setPrice("");
+    if (orderType !== "limit" && orderType !== "stop-limit" && orderType !== "iceberg") {
+      updateTicket({ price: "" });
     }
-  }, [orderType]);
+    if (!isStopOrder(orderType)) {
+      setStopPrice("");
+    }
+    setPostOnly(orderType === "limit" && restingChoicesRef.current.postOnly);
+    // Orders that cannot rest have nothing to keep good till cancelled
+    if (orderType !== "limit" && orderType !== "stop-limit") {
+      setTimeInForce(prev => prev === "gtc" ? "ioc" : prev);
+    } else {
+      setTimeInForce(restingChoicesRef.current.timeInForce);
+    }
+  }, [orderType, updateTicket]);
 
   function validate(): FormErrors {
     const errs: FormErrors = {};
     
     if (!venue) errs.venue = "Venue is required";
     if (!symbol) errs.symbol = "Symbol is required";
+    else if (!listsSymbol(symbol, venue)) errs.symbol = `${VENUES.find(v => v.value === venue)?.label} does not list ${symbol}`;
     if (!orderType) errs.orderType = "Order type is required";
     if (!side) errs.side = "Side is required";
     
-    if (orderType === "limit") {
+    if (isStop) {
+      if (!stopPrice) {
+        errs.stopPrice = "Stop price is required for stop orders";
+      } else if (isNaN(Number(stopPrice)) || Number(stopPrice) <= 0) {
+        errs.stopPrice = "Stop price must be a positive number";
+      } else {
+        const tickError = validatePrice(instrument, Number(stopPrice));
+        if (tickError) errs.stopPrice = tickError;
+      }
+    }
+
+    if (postOnly && timeInForce !== "gtc") {
+      errs.timeInForce = "Post-only orders must be good till cancelled";
+    }
+
+    if (takesPrice) {
       if (!price) {
-        errs.price = "Price is required for limit orders";
+        errs.price = `Price is required for ${orderType} orders`;
       } else if (isNaN(Number(price)) || Number(price) <= 0) {
         errs.price = "Price must be a positive number";
       }
@@ -63,8 +133,38 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
       errs.quantity = "Quantity is required";
     } else if (isNaN(Number(quantity)) || Number(quantity) <= 0) {
       errs.quantity = "Quantity must be a positive number";
-    } else if (Number(quantity) > 1000) {
-      errs.quantity = "Quantity cannot exceed 1000 for simulation";
+    }
+
+    // The venue's own filters: tick and lot size, order size limits and minimum notional
+    const venueErrors = validateOrderSize(instrument, {
+      quantity: Number(quantity),
+      sizing,
+      price: takesPrice && !errs.price ? Number(price) : null
+    });
+    if (!errs.price && venueErrors.price) errs.price = venueErrors.price;
+    if (!errs.quantity && venueErrors.quantity) errs.quantity = venueErrors.quantity;
+
+    if (isAlgo) {
+      const seconds = Number(duration);
+      if (!Number.isInteger(seconds) || seconds <= 0 || seconds > 3600) {
+        errs.duration = "Duration must be a whole number of seconds up to 3600";
+      }
+      if (isScheduled && (!Number.isInteger(Number(slices)) || Number(slices) < 1 || Number(slices) > 100)) {
+        errs.slices = "Slices must be a whole number from 1 to 100";
+      }
+      if (orderType === "pov" && !(Number(participation) > 0 && Number(participation) <= 100)) {
+        errs.participation = "Participation must be between 0 and 100%";
+      }
+      if (orderType === "iceberg") {
+        const clipErrors = validateOrderSize(instrument, { quantity: Number(displayQuantity) });
+        if (!(Number(displayQuantity) > 0)) {
+          errs.displayQuantity = "Display quantity must be a positive number";
+        } else if (clipErrors.quantity) {
+          errs.displayQuantity = clipErrors.quantity;
+        } else if (sizing === "base" && Number(displayQuantity) > Number(quantity)) {
+          errs.displayQuantity = "Display quantity cannot exceed the order quantity";
+        }
+      }
     }
 
     return errs;
@@ -76,7 +176,8 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
     const errs = validate();
     setErrors(errs);
     
-    if (Object.keys(errs).length === 0) {
+    // Checks values, not keys, so a field left undefined never blocks submission
+    if (Object.values(errs).every(error => !error)) {
       setIsSubmitting(true);
       
       // Simulate processing delay for better UX
@@ -86,15 +187,38 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
           symbol, 
           orderType, 
           side, 
-          price: orderType === "limit" ? price : undefined, 
+          price: takesPrice ? price : undefined, 
           quantity, 
-          timing 
+          sizing,
+          // Algorithms pace themselves and stops wait for their trigger, so neither is delayed
+          timing: isAlgo || isStop ? 0 : timing,
+          stopPrice: isStop ? stopPrice : undefined,
+          trigger: isStop ? trigger : undefined,
+          timeInForce: isAlgo ? undefined : timeInForce,
+          postOnly: orderType === "limit" && postOnly,
+          algo: isAlgo ? {
+            durationSeconds: Number(duration),
+            slices: Number(slices),
+            participationRate: Number(participation) / 100,
+            displayQuantity: Number(displayQuantity)
+          } : undefined
         });
         setIsSubmitting(false);
       }, 500);
     }
   }
 
+  // Typed prices and sizes snap to the venue's grid when the field loses focus
+  function snapToGrid(value: string, step: number, set: (value: string) => void) {
+    if (value && Number(value) > 0) set(String(roundToIncrement(Number(value), step)));
+  }
+
+  // Base and notional amounts are not interchangeable, so switching units clears the field
+  function changeSizing(mode: string) {
+    updateTicket({ sizing: mode, quantity: "" });
+    setErrors(prev => ({ ...prev, quantity: undefined }));
+  }
+
   function handleQuickFill(preset: string) {
     setQuantity(preset);
     setErrors(prev => ({ ...prev, quantity: undefined }));
@@ -102,6 +226,7 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
 
   function clearForm() {
     setPrice("");
+    setStopPrice("");
     setQuantity("");
     setErrors({});
   }
@@ -139,26 +264,36 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
           {errors.venue && <span className="text-red-400 text-xs">{errors.venue}</span>}
         </div>
 
+        {/* Fee Tier Selection (venues with a published schedule) */}
+        {EXCHANGE_APIS[venue]?.feeTiers && (
+          <div className="space-y-2">
+            <label htmlFor="feeTier" className="text-white font-semibold text-sm">
+              Fee Tier
+            </label>
+            <select 
+              id="feeTier" 
+              value={getFeeTier(venue, feeTiers[venue]).value} 
+              onChange={e => onFeeTierChange(venue, e.target.value)}
+              className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition"
+            >
+              {EXCHANGE_APIS[venue].feeTiers.map(t => (
+                <option key={t.value} value={t.value} className="bg-gray-900 text-white">
+                  {t.label} — maker {(t.maker * 100).toFixed(3)}% / taker {(t.taker * 100).toFixed(3)}%
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Symbol Selection */}
         <div className="space-y-2">
           <label htmlFor="symbol" className="text-white font-semibold text-sm">
             Trading Pair
           </label>
-          <select 
-            id="symbol" 
-            value={symbol} 
-            onChange={e => setSymbol(e.target.value)}
-            className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition"
-          >
-            {SYMBOLS.map(s => (
-              <option key={s.value} value={s.value} className="bg-gray-900 text-white">
-                {s.label}
-              </option>
-            ))}
-          </select>
-          {SYMBOLS.find(s => s.value === symbol)?.description && (
+          <SymbolPicker id="symbol" symbols={symbols} value={symbol} onChange={setSymbol} />
+          {symbols.find(s => s.value === symbol)?.description && (
             <p className="text-white/60 text-xs">
-              {SYMBOLS.find(s => s.value === symbol)?.description}
+              {symbols.find(s => s.value === symbol)?.description}
             </p>
           )}
           {errors.symbol && <span className="text-red-400 text-xs">{errors.symbol}</span>}
@@ -215,8 +350,53 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
           </div>
         </div>
 
-        {/* Price Input (only for limit orders) */}
-        {orderType === "limit" && (
+        {/* Stop Trigger (stop and stop-limit orders) */}
+        {isStop && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <div className="space-y-2">
+              <label htmlFor="stopPrice" className="text-white font-semibold text-sm">
+                Stop Price (USD)
+              </label>
+              <input 
+                id="stopPrice" 
+                type="number" 
+                step={instrument.tickSize}
+                placeholder="Enter stop price..." 
+                value={stopPrice} 
+                onChange={e => setStopPrice(e.target.value)}
+                onBlur={() => snapToGrid(stopPrice, instrument.tickSize, setStopPrice)}
+                className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition placeholder:text-white/40"
+              />
+              {errors.stopPrice && <span className="text-red-400 text-xs">{errors.stopPrice}</span>}
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="trigger" className="text-white font-semibold text-sm">
+                Trigger On
+              </label>
+              <select 
+                id="trigger" 
+                value={trigger} 
+                onChange={e => setTrigger(e.target.value)}
+                className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition"
+              >
+                {STOP_TRIGGERS.map(t => (
+                  <option key={t.value} value={t.value} className="bg-gray-900 text-white">
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+              {STOP_TRIGGERS.find(t => t.value === trigger)?.description && (
+                <p className="text-white/60 text-xs hidden sm:block">
+                  {STOP_TRIGGERS.find(t => t.value === trigger)?.description}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Price Input (limit, stop-limit and iceberg orders) */}
+        {takesPrice && (
           <div className="space-y-2">
             <label htmlFor="price" className="text-white font-semibold text-sm">
               Limit Price (USD)
@@ -224,38 +404,105 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
             <input 
               id="price" 
               type="number" 
-              step="0.01"
+              step={instrument.tickSize}
               placeholder="Enter limit price..." 
               value={price} 
               onChange={e => setPrice(e.target.value)}
+              onBlur={() => snapToGrid(price, instrument.tickSize, setPrice)}
               className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition placeholder:text-white/40"
             />
             <p className="text-white/60 text-xs">
-              Order will only execute at this price or better
+              {orderType === "iceberg"
+                ? "Each visible clip rests at this price"
+                : orderType === "stop-limit"
+                  ? "Once triggered, the order executes only at this price or better"
+                  : "Order will only execute at this price or better"}
             </p>
             {errors.price && <span className="text-red-400 text-xs">{errors.price}</span>}
           </div>
         )}
 
-        {/* Quantity Input */}
+        {/* Time in Force (algorithms manage their own children) */}
+        {!isAlgo && (
+          <div className="space-y-2">
+            <label htmlFor="timeInForce" className="text-white font-semibold text-sm">
+              Time in Force
+            </label>
+            <select 
+              id="timeInForce" 
+              value={timeInForce} 
+              onChange={e => {
+                setTimeInForce(e.target.value);
+                if (restsOnBook) restingChoicesRef.current.timeInForce = e.target.value;
+              }}
+              className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition"
+            >
+              {TIME_IN_FORCE.filter(t => restsOnBook || t.value !== "gtc").map(t => (
+                <option key={t.value} value={t.value} className="bg-gray-900 text-white">
+                  {t.label}
+                </option>
+              ))}
+            </select>
+            {TIME_IN_FORCE.find(t => t.value === timeInForce)?.description && (
+              <p className="text-white/60 text-xs hidden sm:block">
+                {TIME_IN_FORCE.find(t => t.value === timeInForce)?.description}
+              </p>
+            )}
+            {orderType === "limit" && (
+              <label className="flex items-center gap-2 text-white/80 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={postOnly}
+                  onChange={e => {
+                    setPostOnly(e.target.checked);
+                    restingChoicesRef.current.postOnly = e.target.checked;
+                  }}
+                  className="accent-blue-500"
+                />
+                Post-only (rejected if it would take liquidity)
+              </label>
+            )}
+            {errors.timeInForce && <span className="text-red-400 text-xs">{errors.timeInForce}</span>}
+          </div>
+        )}
+
+        {/* Quantity Input, in the base asset or as a quote notional */}
         <div className="space-y-2">
-          <label htmlFor="quantity" className="text-white font-semibold text-sm">
-            Quantity
-          </label>
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor="quantity" className="text-white font-semibold text-sm">
+              {sizing === "quote" ? "Notional (USD)" : `Quantity (${baseAsset})`}
+            </label>
+            <div className="flex rounded-lg overflow-hidden border border-white/20 text-xs">
+              {SIZING_MODES.map(mode => (
+                <button
+                  key={mode.value}
+                  type="button"
+                  title={mode.description}
+                  onClick={() => changeSizing(mode.value)}
+                  className={`px-2 sm:px-3 py-1 transition ${
+                    sizing === mode.value ? "bg-blue-600 text-white" : "bg-white/5 text-white/70 hover:bg-white/10"
+                  }`}
+                >
+                  {mode.value === "quote" ? "USD" : baseAsset}
+                </button>
+              ))}
+            </div>
+          </div>
           <input 
             id="quantity" 
             type="number" 
-            step="0.0001"
-            placeholder="Enter quantity..." 
+            step={sizing === "quote" || instrument.inverse ? "0.01" : lotStep}
+            placeholder={sizing === "quote" ? "Enter amount to spend..." : "Enter quantity..."} 
             value={quantity} 
             onChange={e => setQuantity(e.target.value)}
+            onBlur={() => sizing === "base" && !instrument.inverse && snapToGrid(quantity, lotStep, setQuantity)}
             className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition placeholder:text-white/40"
           />
           
           {/* Quick Fill Presets */}
           <div className="flex flex-wrap gap-2 mt-2">
             <span className="text-white/60 text-xs self-center">Quick fill:</span>
-            {QUANTITY_PRESETS.map(preset => (
+            {quantityPresets.map(preset => (
               <button
                 key={preset.value}
                 type="button"
@@ -266,33 +513,113 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
               </button>
             ))}
           </div>
+          <p className="text-white/60 text-xs">
+            {VENUES.find(v => v.value === venue)?.label} rules: {describeSizeRules(instrument)}
+          </p>
           
           {errors.quantity && <span className="text-red-400 text-xs">{errors.quantity}</span>}
         </div>
 
-        {/* Timing Simulation */}
-        <div className="space-y-2">
-          <label htmlFor="timing" className="text-white font-semibold text-sm">
-            Execution Timing Simulation
-          </label>
-          <select 
-            id="timing" 
-            value={timing} 
-            onChange={e => setTiming(Number(e.target.value))}
-            className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition"
-          >
-            {TIMINGS.map(t => (
-              <option key={t.value} value={t.value} className="bg-gray-900 text-white">
-                {t.label}
-              </option>
-            ))}
-          </select>
-          {TIMINGS.find(t => t.value === timing)?.description && (
-            <p className="text-white/60 text-xs hidden sm:block">
-              {TIMINGS.find(t => t.value === timing)?.description}
-            </p>
-          )}
-        </div>
+        {/* Algorithm Parameters */}
+        {isAlgo && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <div className="space-y-2">
+              <label htmlFor="duration" className="text-white font-semibold text-sm">
+                {isScheduled ? "Duration (s)" : "Time Limit (s)"}
+              </label>
+              <input 
+                id="duration" 
+                type="number" 
+                step="1"
+                value={duration} 
+                onChange={e => setDuration(e.target.value)}
+                className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition placeholder:text-white/40"
+              />
+              {errors.duration && <span className="text-red-400 text-xs">{errors.duration}</span>}
+            </div>
+
+            {isScheduled && (
+              <div className="space-y-2">
+                <label htmlFor="slices" className="text-white font-semibold text-sm">
+                  Slices
+                </label>
+                <input 
+                  id="slices" 
+                  type="number" 
+                  step="1"
+                  value={slices} 
+                  onChange={e => setSlices(e.target.value)}
+                  className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition placeholder:text-white/40"
+                />
+                {errors.slices && <span className="text-red-400 text-xs">{errors.slices}</span>}
+              </div>
+            )}
+
+            {orderType === "pov" && (
+              <div className="space-y-2">
+                <label htmlFor="participation" className="text-white font-semibold text-sm">
+                  Participation (%)
+                </label>
+                <input 
+                  id="participation" 
+                  type="number" 
+                  step="1"
+                  value={participation} 
+                  onChange={e => setParticipation(e.target.value)}
+                  className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition placeholder:text-white/40"
+                />
+                <p className="text-white/60 text-xs">
+                  Share of the size leaving the book on the side you take from
+                </p>
+                {errors.participation && <span className="text-red-400 text-xs">{errors.participation}</span>}
+              </div>
+            )}
+
+            {orderType === "iceberg" && (
+              <div className="space-y-2">
+                <label htmlFor="displayQuantity" className="text-white font-semibold text-sm">
+                  Display Quantity
+                </label>
+                <input 
+                  id="displayQuantity" 
+                  type="number" 
+                  step={instrument.inverse ? "0.0001" : lotStep}
+                  value={displayQuantity} 
+                  onChange={e => setDisplayQuantity(e.target.value)}
+                  onBlur={() => !instrument.inverse && snapToGrid(displayQuantity, lotStep, setDisplayQuantity)}
+                  className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition placeholder:text-white/40"
+                />
+                {errors.displayQuantity && <span className="text-red-400 text-xs">{errors.displayQuantity}</span>}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Timing Simulation (algorithms pace themselves, stops wait for their trigger) */}
+        {!isAlgo && !isStop && (
+          <div className="space-y-2">
+            <label htmlFor="timing" className="text-white font-semibold text-sm">
+              Execution Timing Simulation
+            </label>
+            <select 
+              id="timing" 
+              value={timing} 
+              onChange={e => setTiming(Number(e.target.value))}
+              className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition"
+            >
+              {TIMINGS.map(t => (
+                <option key={t.value} value={t.value} className="bg-gray-900 text-white">
+                  {t.label}
+                </option>
+              ))}
+            </select>
+            {TIMINGS.find(t => t.value === timing)?.description && (
+              <p className="text-white/60 text-xs hidden sm:block">
+                {TIMINGS.find(t => t.value === timing)?.description}
+              </p>
+            )}
+          </div>
+        )}
 
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 pt-4">
@@ -333,9 +660,13 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
             <span>Exchange:</span>
             <span className="text-white text-right">{VENUES.find(v => v.value === venue)?.label}</span>
           </div>
+          <div className="flex justify-between">
+            <span>Fee Tier:</span>
+            <span className="text-white text-right">{getFeeTier(venue, feeTiers[venue]).label}</span>
+          </div>
           <div className="flex justify-between">
             <span>Pair:</span>
-            <span className="text-white text-right">{SYMBOLS.find(s => s.value === symbol)?.label}</span>
+            <span className="text-white text-right">{symbols.find(s => s.value === symbol)?.label}</span>
           </div>
           <div className="flex justify-between">
             <span>Type:</span>
@@ -343,16 +674,44 @@ export default function OrderForm({ onSimulate }: OrderFormProps) {
               {ORDER_TYPES.find(o => o.value === orderType)?.label} {SIDES.find(s => s.value === side)?.label}
             </span>
           </div>
-          {orderType === "limit" && price && (
+          {isStop && stopPrice && (
+            <div className="flex justify-between">
+              <span>Stop:</span>
+              <span className="text-white font-mono text-right">
+                ${Number(stopPrice).toFixed(instrument.pricePrecision)} ({STOP_TRIGGERS.find(t => t.value === trigger)?.label.toLowerCase()})
+              </span>
+            </div>
+          )}
+          {takesPrice && price && (
             <div className="flex justify-between">
               <span>Price:</span>
-              <span className="text-white font-mono text-right">${Number(price).toFixed(2)}</span>
+              <span className="text-white font-mono text-right">${Number(price).toFixed(instrument.pricePrecision)}</span>
+            </div>
+          )}
+          {!isAlgo && (
+            <div className="flex justify-between">
+              <span>Time in Force:</span>
+              <span className="text-white text-right">
+                {TIME_IN_FORCE.find(t => t.value === timeInForce)?.label}{postOnly && ", post-only"}
+              </span>
             </div>
           )}
           {quantity && (
             <div className="flex justify-between">
-              <span>Quantity:</span>
-              <span className="text-white font-mono text-right">{Number(quantity).toFixed(4)}</span>
+              <span>{sizing === "quote" ? "Notional:" : "Quantity:"}</span>
+              <span className="text-white font-mono text-right">
+                {sizing === "quote" ? `$${Number(quantity).toLocaleString("en-US", { maximumFractionDigits: 2 })}` : `${Number(quantity).toFixed(instrument.quantityPrecision)} ${baseAsset}`}
+              </span>
+            </div>
+          )}
+          {isAlgo && (
+            <div className="flex justify-between">
+              <span>Execution:</span>
+              <span className="text-white text-right">
+                {isScheduled && `${slices} slices over ${duration}s`}
+                {orderType === "pov" && `${participation}% of book depletion, up to ${duration}s`}
+                {orderType === "iceberg" && `${displayQuantity} shown, up to ${duration}s`}
+              </span>
             </div>
           )}
         </div>
@@ -0,0 +1,116 @@
+import { useMemo } from "react";
+import { VENUES, VENUE_COLORS, getFeeTier } from "@/lib/exchanges";
+import { formatCurrency, formatPercentage, formatQuantity } from "@/lib/marketCalculations";
+import { getInstrument, getCombinedPrecision } from "@/lib/instruments";
+import { routeOrder, type RoutableOrder } from "@/lib/orderRouter";
+import type { VenueBook } from "@/lib/consolidatedBook";
+
+export interface OrderRoutingPanelProps {
+  symbol: string;
+  order: RoutableOrder;
+  books: { [venue: string]: VenueBook }; // live venues only
+  feeTiers: { [venue: string]: string };
+}
+
+const venueLabel = (venue: string) => VENUES.find(v => v.value === venue)?.label || venue;
+
+const OrderRoutingPanel = ({ symbol, order, books, feeTiers }: OrderRoutingPanelProps) => {
+  const plan = useMemo(() => routeOrder(
+    symbol,
+    books,
+    order,
+    Object.fromEntries(Object.keys(books).map(venue => [venue, getFeeTier(venue, feeTiers[venue]).taker]))
+  ), [symbol, books, order, feeTiers]);
+  const costLabel = order.side === "buy" ? "Cost" : "Proceeds";
+  const venueCount = Object.keys(books).length;
+  const precision = getCombinedPrecision(symbol, Object.keys(books));
+
+  return (
+    <div className="bg-gradient-to-r from-purple-900/20 to-blue-900/20 border border-white/20 rounded-xl p-4 sm:p-6">
+      <h3 className="font-bold mb-4 text-lg sm:text-xl text-white flex items-center gap-2">
+        <span className="w-4 h-4 bg-purple-400 rounded"></span>
+        Smart Order Routing
+        <span className="text-white/50 text-xs sm:text-sm font-normal">
+          {venueCount} live {venueCount === 1 ? "venue" : "venues"}
+        </span>
+      </h3>
+
+      {venueCount === 0 ? (
+        <p className="text-white/60 text-sm">Waiting for live books from connected venues...</p>
+      ) : plan.children.length === 0 ? (
+        <p className="text-yellow-400 text-sm">No venue has liquidity within the order&apos;s limit price.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-white/60 text-left border-b border-white/20">
+                  <th className="py-2 pr-2 font-normal">Venue</th>
+                  <th className="py-2 pr-2 font-normal">Quantity</th>
+                  <th className="py-2 pr-2 font-normal">Share</th>
+                  <th className="py-2 pr-2 font-normal">Avg Fill Price</th>
+                  <th className="py-2 pr-2 font-normal">Gross {costLabel}</th>
+                  <th className="py-2 pr-2 font-normal">Fees</th>
+                  <th className="py-2 font-normal">Net {costLabel}</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {plan.children.map(child => (
+                  <tr key={child.venue} className="border-b border-white/5">
+                    <td className={`py-2 pr-2 font-sans ${VENUE_COLORS[child.venue]?.text || "text-white"}`}>
+                      {venueLabel(child.venue)}
+                      <span className="text-white/40 text-xs ml-1">({child.fills.length} {child.fills.length === 1 ? "level" : "levels"})</span>
+                    </td>
+                    <td className="py-2 pr-2 text-white">{formatQuantity(child.quantity, getInstrument(symbol, child.venue))}</td>
+                    <td className="py-2 pr-2 text-white/70">{formatPercentage((child.quantity / plan.filledQuantity) * 100, 1)}</td>
+                    <td className="py-2 pr-2 text-white">{formatCurrency(child.averagePrice, getInstrument(symbol, child.venue))}</td>
+                    <td className="py-2 pr-2 text-white">{formatCurrency(child.cost)}</td>
+                    <td className="py-2 pr-2 text-white/70">{formatCurrency(child.feeCost)}</td>
+                    <td className="py-2 text-white">{formatCurrency(child.netCost)}</td>
+                  </tr>
+                ))}
+                <tr className="text-white font-semibold">
+                  <td className="py-2 pr-2 font-sans">Total</td>
+                  <td className="py-2 pr-2">{formatQuantity(plan.filledQuantity, precision)}</td>
+                  <td className="py-2 pr-2"></td>
+                  <td className="py-2 pr-2">{formatCurrency(plan.averagePrice, precision)}</td>
+                  <td className="py-2 pr-2">{formatCurrency(plan.totalCost)}</td>
+                  <td className="py-2 pr-2">{formatCurrency(plan.feeCost)}</td>
+                  <td className="py-2">{formatCurrency(plan.netCost)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {plan.bestSingleVenue && (
+            <div className="mt-4 p-3 bg-black/30 border border-white/10 rounded-lg text-xs sm:text-sm">
+              <p className="text-white/70">
+                All on <span className={VENUE_COLORS[plan.bestSingleVenue.venue]?.text || "text-white"}>{venueLabel(plan.bestSingleVenue.venue)}</span>:{" "}
+                {formatQuantity(plan.bestSingleVenue.filledQuantity, getInstrument(symbol, plan.bestSingleVenue.venue))} at {formatCurrency(plan.bestSingleVenue.effectivePrice, getInstrument(symbol, plan.bestSingleVenue.venue))} effective
+                ({formatCurrency(plan.bestSingleVenue.netCost)} net of fees)
+              </p>
+              <p className={`mt-1 font-semibold ${plan.savings > 0 ? "text-green-400" : "text-white/70"}`}>
+                {plan.savings > 0
+                  ? `Routing saves ${formatCurrency(plan.savings)} (${plan.savingsBps.toFixed(1)} bps) on the same quantity`
+                  : "Routing matches the best single venue"}
+              </p>
+              {plan.additionalFill > 1e-9 && (
+                <p className="mt-1 text-green-400">
+                  Splitting fills an extra {formatQuantity(plan.additionalFill, precision)} no single venue could
+                </p>
+              )}
+            </div>
+          )}
+
+          {plan.remainingQuantity > 1e-9 && (
+            <p className="mt-3 text-yellow-400 text-xs sm:text-sm">
+              {formatQuantity(plan.remainingQuantity, precision)} of {formatQuantity(plan.requestedQuantity, precision)} unfilled across the visible depth of all venues
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OrderRoutingPanel;
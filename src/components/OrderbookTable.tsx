@@ -0,0 +1,128 @@
+import { useState, useEffect, useRef, memo, type ReactNode } from "react";
+import { formatCurrency, formatQuantity } from "@/lib/marketCalculations";
+import type { DisplayPrecision } from "@/lib/instruments";
+import type { GroupedLevel } from "@/lib/priceGrouping";
+
+interface OrderbookTableProps {
+  side: "bids" | "asks";
+  levels: GroupedLevel[];
+  instrument: DisplayPrecision;
+  highlightedPrice: number | null;
+  restingIndex: number; // row the simulated resting order is drawn before, -1 when there is none
+  restingRow: ReactNode;
+  onPick?: (side: "bids" | "asks", price: number) => void; // a level was clicked
+}
+
+// Rows have a fixed height so the visible window is plain index arithmetic
+const ROW_HEIGHT = 28;
+// Rows rendered beyond each edge of the viewport, so fast scrolling does not flash empty space
+const OVERSCAN = 8;
+
+interface LevelRowProps {
+  side: "bids" | "asks";
+  top: number;
+  price: number;
+  quantity: number;
+  notional: number;
+  cumulative: number; // computed over the whole side, so it does not depend on what is scrolled into view
+  levelCount: number;
+  highlighted: boolean;
+  instrument: DisplayPrecision;
+  onPick?: (side: "bids" | "asks", price: number) => void;
+}
+
+// Props are primitives so an unchanged level skips rendering when the rest of the book moves
+const LevelRow = memo(function LevelRow({ side, top, price, quantity, notional, cumulative, levelCount, highlighted, instrument, onPick }: LevelRowProps) {
+  const grouped = levelCount > 1 ? `${levelCount} price levels` : "";
+  return (
+    <div
+      className={`absolute inset-x-0 grid grid-cols-4 gap-2 items-center text-xs sm:text-sm px-2 rounded transition-colors ${
+        highlighted
+          ? "bg-yellow-400/20 border-l-4 border-yellow-400"
+          : "hover:bg-white/5"
+      } ${onPick ? "cursor-pointer" : ""}`}
+      style={{ top, height: ROW_HEIGHT }}
+      onClick={onPick && (() => onPick(side, price))}
+      title={onPick ? `${grouped ? `${grouped} · ` : ""}Click to ${side === "asks" ? "buy" : "sell"} at this price` : grouped || undefined}
+    >
+      <div className={`${side === "bids" ? "text-green-400" : "text-red-400"} font-mono`}>{formatCurrency(price, instrument)}</div>
+      <div className="text-white font-mono">{formatQuantity(quantity, instrument)}</div>
+      <div className="text-white/70 font-mono">{formatCurrency(notional)}</div>
+      <div className="text-white/50 font-mono">{formatQuantity(cumulative, instrument)}</div>
+    </div>
+  );
+});
+
+// Only the rows in view are mounted, so a 1000-level side costs the same to render as a 15-level one
+export default function OrderbookTable({ side, levels, instrument, highlightedPrice, restingIndex, restingRow, onPick }: OrderbookTableProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    setViewportHeight(viewport.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(viewport.clientHeight));
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // The resting order occupies a row of its own between levels
+  const hasResting = restingIndex >= 0 && restingRow !== null;
+  const rowCount = levels.length + (hasResting ? 1 : 0);
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const rows: ReactNode[] = [];
+  for (let row = first; row < last; row++) {
+    const top = row * ROW_HEIGHT;
+    if (hasResting && row === restingIndex) {
+      rows.push(
+        <div key="resting" className="absolute inset-x-0 flex flex-col justify-center" style={{ top, height: ROW_HEIGHT }}>
+          {restingRow}
+        </div>
+      );
+      continue;
+    }
+
+    const level = levels[hasResting && row > restingIndex ? row - 1 : row];
+    rows.push(
+      <LevelRow
+        key={`${side}-${level.price}`}
+        side={side}
+        top={top}
+        price={level.price}
+        quantity={level.quantity}
+        notional={level.notional}
+        cumulative={level.cumulative}
+        levelCount={level.levelCount}
+        highlighted={highlightedPrice === level.price}
+        instrument={instrument}
+        onPick={onPick}
+      />
+    );
+  }
+
+  return (
+    <div className="h-64 sm:h-80 lg:h-96 flex flex-col bg-black/20 rounded-lg border border-white/10">
+      <div className="grid grid-cols-4 gap-2 text-xs text-white/60 p-2 border-b border-white/20 bg-black/40">
+        <div>Price</div>
+        <div>Quantity</div>
+        <div className="hidden sm:block">Total</div>
+        <div className="sm:hidden">Qty</div>
+        <div>Cumulative</div>
+      </div>
+      <div
+        ref={viewportRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 min-h-0 overflow-y-auto px-2"
+      >
+        <div className="relative" style={{ height: rowCount * ROW_HEIGHT }}>
+          {rows}
+        </div>
+      </div>
+    </div>
+  );
+}
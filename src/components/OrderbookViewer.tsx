@@ -1,8 +1,23 @@
 import { useState, useEffect, useRef, useCallback, useMemo, memo } from "react";
-import { VENUES, formatSymbolForDisplay } from "@/lib/exchanges";
-import { calculateOrderMetrics, calculateOrderbookImbalance, getSpreadInfo, formatCurrency, formatPercentage, formatQuantity, type OrderbookLevel } from "@/lib/marketCalculations";
-import { WebSocketManager } from "@/lib/webSocketManager";
+import { VENUES, formatSymbolForDisplay, getFeeTier } from "@/lib/exchanges";
+import { getInstrument, roundToIncrement } from "@/lib/instruments";
+import { calculateOrderMetrics, calculateDelayedExecution, calculateOrderbookImbalance, getSpreadInfo, isStopOrder, isStopTriggered, formatCurrency, formatPercentage, formatQuantity, type OrderbookLevel } from "@/lib/marketCalculations";
+import { BookFeed } from "@/lib/bookFeed";
+import { BOOK_DEPTHS, DEFAULT_BOOK_DEPTH } from "@/lib/bookEngine";
+import { getExchangeAdapter } from "@/lib/adapters";
+import { toBaseUnitBook } from "@/lib/consolidatedBook";
+import { describeTruncation, parseRecording, parseRecordingHeader, registerReplaySession } from "@/lib/marketDataRecorder";
+import { BookFlowMonitor, RestingOrderTracker, estimateFillProbability, type DepletionStats, type RestingOrderState } from "@/lib/queueModel";
+import { AlgoExecution, isAlgoOrder, type AlgoParams } from "@/lib/executionAlgos";
+import { bucketPrice, getGroupingOptions, getGroupingStep, groupBook } from "@/lib/priceGrouping";
+import { FrameScheduler, REFRESH_RATES, DEFAULT_REFRESH_RATE, type FrameStats } from "@/lib/frameScheduler";
+import type { DepthPoint } from "@/lib/depthChart";
+import { usePricePicker, useReferencePricePublisher } from "@/hooks/useOrderTicket";
+import { ORDER_TYPES, TIMINGS } from "@/lib/orderFormOptions";
 import DepthChart from "./DepthChart";
+import OrderbookTable from "./OrderbookTable";
+import ReplayControls from "./ReplayControls";
+import DemoMarketControls, { type DemoSettings } from "./DemoMarketControls";
 
 export interface OrderbookViewerProps {
   venue: string;
@@ -13,9 +28,16 @@ export interface OrderbookViewerProps {
     orderType: string;
     side: string;
     price?: string;
-    quantity: string;
+    quantity: string; // quote notional when sizing is "quote"
+    sizing?: string;
     timing: number;
+    algo?: AlgoParams;
+    stopPrice?: string;
+    trigger?: string;
+    timeInForce?: string;
+    postOnly?: boolean;
   } | null;
+  feeTiers?: { [venue: string]: string }; // user's selected fee tier per venue
 }
 
 interface WebSocketState {
@@ -24,9 +46,40 @@ interface WebSocketState {
   lastMessageTime: number;
   connectionError: string | null;
   usingDemo: boolean;
+  resyncCount: number;
+  lastResyncReason: string | null;
 }
 
-const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps) => {
+type Book = { bids: OrderbookLevel[]; asks: OrderbookLevel[] };
+
+// Fill-probability horizons, taken from the simulated timing options
+const FILL_HORIZONS = TIMINGS.map(t => t.value).filter(value => value > 0);
+
+// The unfilled remainder of a limit order rests at its price on its own side of the book
+function createRestingTracker(order: NonNullable<OrderbookViewerProps["simulatedOrder"]>, book: Book): RestingOrderTracker | null {
+  if ((order.orderType !== "limit" && order.orderType !== "stop-limit") || !order.price) return null;
+
+  const { restingQuantity } = calculateOrderMetrics(book, order);
+  if (restingQuantity <= 0) return null;
+  return new RestingOrderTracker(order.side === "buy" ? "bids" : "asks", Number(order.price), restingQuantity, book);
+}
+
+// Outcome banner per order status (full class names so Tailwind picks them up)
+const STATUS_STYLES: { [status: string]: { label: string; className: string } } = {
+  filled: { label: "Filled", className: "text-green-300 bg-green-500/10 border-green-400/30" },
+  partial: { label: "Partially Filled", className: "text-yellow-300 bg-yellow-500/10 border-yellow-400/30" },
+  resting: { label: "Resting", className: "text-blue-300 bg-blue-500/10 border-blue-400/30" },
+  cancelled: { label: "Cancelled", className: "text-white/80 bg-white/5 border-white/20" },
+  rejected: { label: "Rejected", className: "text-red-300 bg-red-500/10 border-red-400/30" }
+};
+
+interface ReplaySession {
+  url: string;
+  venue: string;
+  symbol: string;
+}
+
+const OrderbookViewer = ({ venue, symbol, simulatedOrder, feeTiers }: OrderbookViewerProps) => {
   const [orderbook, setOrderbook] = useState<{ bids: OrderbookLevel[]; asks: OrderbookLevel[] }>({ 
     bids: [], 
     asks: [] 
@@ -36,50 +89,284 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
     reconnectAttempts: 0,
     lastMessageTime: 0,
     connectionError: null,
-    usingDemo: false
+    usingDemo: false,
+    resyncCount: 0,
+    lastResyncReason: null
   });
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
-  const wsManagerRef = useRef<WebSocketManager | null>(null);
+  // Feed messages are coalesced so the book renders at most once per frame, capped at the refresh rate
+  const [refreshRate, setRefreshRate] = useState(DEFAULT_REFRESH_RATE);
+  const schedulerRef = useRef(new FrameScheduler<Book>(DEFAULT_REFRESH_RATE));
+  const [frameStats, setFrameStats] = useState<FrameStats>({ rendered: 0, dropped: 0 });
+  const wsManagerRef = useRef<BookFeed | null>(null);
+  // Latest symbol for (re)connects; symbol changes are applied to the live socket instead
+  const symbolRef = useRef(symbol);
+  const demoFeedRef = useRef(venue === "demo"); // the demo generator is feeding the view
+  // Levels per side; the manager picks the venue subscription that covers them
+  const [depth, setDepth] = useState(DEFAULT_BOOK_DEPTH);
+  const [grouping, setGrouping] = useState("tick:1");
+  const depthRef = useRef(depth);
+  // A loaded recording replaces the live feed until the user exits replay
+  const [replay, setReplay] = useState<ReplaySession | null>(null);
+  // Kept apart from the session so a speed change does not reconnect and restart the replay
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const replaySpeedRef = useRef(replaySpeed);
+  // Shown while the demo market runs, so a simulated session can be reproduced; changing either restarts it
+  const [demoSettings, setDemoSettings] = useState<DemoSettings>(() => ({ seed: Date.now() % 1000000, volatilityScale: 1 }));
+  const [recording, setRecording] = useState(false);
+  // Set when a saved or loaded recording stopped short at the recorder's size cap
+  const [recordingNotice, setRecordingNotice] = useState<string | null>(null);
+  const displayVenue = replay?.venue ?? venue;
+  const displaySymbol = replay?.symbol ?? symbol;
+  // Depletion history for queue estimates, and the simulated order resting on the book
+  const flowMonitorRef = useRef(new BookFlowMonitor());
+  const latestBookRef = useRef<Book>(orderbook);
+  const restingRef = useRef<{
+    order: OrderbookViewerProps["simulatedOrder"];
+    tracker: RestingOrderTracker | null;
+    placed: boolean; // checked against a book; a fully crossing order never rests later
+  }>({ order: null, tracker: null, placed: false });
+  const [resting, setResting] = useState<{ order: RestingOrderState; stats: DepletionStats } | null>(null);
+  // Delayed orders are priced on the submission book and executed against the book once the delay elapses
+  const delayedRef = useRef<{
+    order: OrderbookViewerProps["simulatedOrder"];
+    submitted: boolean;
+    due: boolean; // delay elapsed, execute on the next available book
+    timer: ReturnType<typeof setTimeout> | null;
+  }>({ order: null, submitted: false, due: false, timer: null });
+  const [delayed, setDelayed] = useState<{
+    submittedAt: number;
+    executeAt: number;
+    submittedBook: Book;
+    executedBook: Book | null;
+  } | null>(null);
+
+  const executeDelayed = useCallback((book: Book) => {
+    const pending = delayedRef.current;
+    if (!pending.due || book.bids.length === 0 || book.asks.length === 0) return;
+
+    pending.due = false;
+    setDelayed(prev => prev && { ...prev, executedBook: book });
+  }, []);
+
+  const submitDelayed = useCallback((book: Book) => {
+    const pending = delayedRef.current;
+    if (!pending.order || pending.submitted || book.bids.length === 0 || book.asks.length === 0) return;
+
+    const submittedAt = Date.now();
+    const delayMs = pending.order.timing * 1000;
+    pending.submitted = true;
+    pending.timer = setTimeout(() => {
+      pending.timer = null;
+      pending.due = true;
+      executeDelayed(latestBookRef.current);
+    }, delayMs);
+    setDelayed({ submittedAt, executeAt: submittedAt + delayMs, submittedBook: book, executedBook: null });
+  }, [executeDelayed]);
+
+  // Algorithmic parents start on the first book after submission and work one step per update
+  const algoRef = useRef<{
+    order: OrderbookViewerProps["simulatedOrder"];
+    execution: AlgoExecution | null;
+  }>({ order: null, execution: null });
+  const [algo, setAlgo] = useState<{ execution: AlgoExecution; updatedAt: number } | null>(null);
+
+  const workAlgo = useCallback((book: Book) => {
+    const { order, execution } = algoRef.current;
+    if (!order || execution?.complete || book.bids.length === 0 || book.asks.length === 0) return;
+
+    const running = execution || new AlgoExecution(order, book);
+    running.onBook(book);
+    algoRef.current.execution = running;
+    setAlgo({ execution: running, updatedAt: Date.now() });
+  }, []);
+
+  // Stops wait for their trigger, then continue as the market or limit order they become
+  const stopRef = useRef<{
+    order: OrderbookViewerProps["simulatedOrder"];
+    triggered: boolean;
+  }>({ order: null, triggered: false });
+  const [stop, setStop] = useState<{
+    referencePrice: number | null; // null until a last price has been inferred from the book
+    triggeredAt: number | null;
+    triggerBook: Book | null;
+  } | null>(null);
 
+  const checkStop = useCallback((book: Book) => {
+    const pending = stopRef.current;
+    if (!pending.order || pending.triggered || book.bids.length === 0 || book.asks.length === 0) return;
+
+    const referencePrice = pending.order.trigger === "last"
+      ? flowMonitorRef.current.lastDepletedTouchPrice
+      : getSpreadInfo(book).midPrice;
+    const triggered = referencePrice !== null &&
+      isStopTriggered(pending.order.side, Number(pending.order.stopPrice), referencePrice);
+    if (triggered) {
+      pending.triggered = true;
+      // Any stop-limit remainder starts resting on the trigger book
+      restingRef.current = { order: pending.order, tracker: null, placed: false };
+    }
+    setStop({ referencePrice, triggeredAt: triggered ? Date.now() : null, triggerBook: triggered ? book : null });
+  }, []);
+
+  // Forget book history whenever the stream switches to another book
+  const resetBook = useCallback(() => {
+    schedulerRef.current.clear();
+    setOrderbook({ bids: [], asks: [] });
+    setLastUpdate(null);
+    flowMonitorRef.current.reset();
+    algoRef.current.execution?.resetFlow();
+    latestBookRef.current = { bids: [], asks: [] };
+    restingRef.current.tracker = null;
+    restingRef.current.placed = false;
+    setResting(null);
+  }, []);
+
+  // Inverse venues stream USD contracts; everything downstream (table, metrics, queue model, picker) works in base units.
+  // The demo generator already quotes base units, even when it stands in for an inverse venue.
   const handleMessage = useCallback((data: { bids: Array<[number, number]>; asks: Array<[number, number]> }) => {
-    const newOrderbook = {
+    const book = {
       bids: data.bids.map(([price, quantity]) => ({ price, quantity })),
       asks: data.asks.map(([price, quantity]) => ({ price, quantity }))
     };
-    setOrderbook(newOrderbook);
+    const feedVenue = demoFeedRef.current ? "demo" : replay?.venue ?? venue;
+    schedulerRef.current.push(toBaseUnitBook(book, getInstrument(replay?.symbol ?? symbolRef.current, feedVenue)));
+  }, [venue, replay]);
+
+  // The simulations see every book the worker publishes, not every venue update: the worker sends at most one book
+  // per 50ms, so depletion, queue estimates and stop triggers miss whatever the venue changed and restored in between
+  const applyBook = useCallback((newOrderbook: Book) => {
+    flowMonitorRef.current.observe(newOrderbook);
+    latestBookRef.current = newOrderbook;
+    checkStop(newOrderbook);
+    const restingOrder = restingRef.current;
+    if (restingOrder.order && !restingOrder.placed && newOrderbook.bids.length > 0 && newOrderbook.asks.length > 0) {
+      restingOrder.tracker = createRestingTracker(restingOrder.order, newOrderbook);
+      restingOrder.placed = true;
+    }
+    if (restingOrder.tracker) {
+      const state = restingOrder.tracker.update(newOrderbook);
+      setResting({ order: state, stats: flowMonitorRef.current.stats(state.side, state.price) });
+    }
+    submitDelayed(newOrderbook);
+    executeDelayed(newOrderbook);
+    workAlgo(newOrderbook);
+  }, [checkStop, submitDelayed, executeDelayed, workAlgo]);
+
+  // Once per frame: the simulations catch up on every published book and one React render shows the latest
+  const renderBooks = useCallback((books: Book[]) => {
+    books.forEach(applyBook);
+    setOrderbook(books[books.length - 1]);
     setLastUpdate(new Date());
     setWsState(prev => ({ ...prev, lastMessageTime: Date.now() }));
+    setFrameStats(schedulerRef.current.getStats());
+  }, [applyBook]);
+
+  useEffect(() => {
+    schedulerRef.current.setHandler(renderBooks);
+  }, [renderBooks]);
+
+  useEffect(() => {
+    schedulerRef.current.setMaxRate(refreshRate);
+  }, [refreshRate]);
+
+  useEffect(() => {
+    const scheduler = schedulerRef.current;
+    return () => scheduler.clear();
   }, []);
 
+  // The demo generator reports itself connected, whether it was picked or stands in for a live venue that failed
   const handleConnectionChange = useCallback((connected: boolean, error?: string) => {
+    demoFeedRef.current = connected && Boolean(error?.includes("Demo"));
     setWsState(prev => ({ 
       ...prev, 
       connected,
       connectionError: error || null,
-      usingDemo: venue === 'demo' || (!connected && Boolean(error?.includes('demo')))
+      usingDemo: !replay && demoFeedRef.current
     }));
-  }, [venue]);
+  }, [replay]);
+
+  const handleResync = useCallback((reason: string) => {
+    setWsState(prev => ({
+      ...prev,
+      resyncCount: prev.resyncCount + 1,
+      lastResyncReason: reason
+    }));
+  }, []);
 
   const connectWebSocket = useCallback(() => {
-    if (!venue || !symbol) return;
+    if (!venue || !symbolRef.current) return;
 
     // Clean up existing connection
     if (wsManagerRef.current) {
       wsManagerRef.current.disconnect();
     }
 
-    console.log(`Connecting to ${venue} for ${symbol}...`);
+    console.log(replay ? `Replaying ${replay.venue} ${replay.symbol}...` : `Connecting to ${venue} for ${symbolRef.current}...`);
+    setWsState(prev => ({ ...prev, resyncCount: 0, lastResyncReason: null }));
+    resetBook();
+    setRecording(false);
     
-    // Create new WebSocket manager
-    wsManagerRef.current = new WebSocketManager(
-      venue,
+    // The feed runs in a worker and posts throttled books back
+    wsManagerRef.current = new BookFeed(
+      replay?.venue ?? venue,
+      replay?.symbol ?? symbolRef.current,
       handleMessage,
-      handleConnectionChange
+      handleConnectionChange,
+      {
+        depth: depthRef.current,
+        onResync: handleResync,
+        url: replay?.url,
+        demoSeed: demoSettings.seed,
+        demoVolatilityScale: demoSettings.volatilityScale
+      }
     );
 
     // Connect
     wsManagerRef.current.connect();
-  }, [venue, symbol, handleMessage, handleConnectionChange]);
+    // A reconnect restarts the replay; keep the speed the user picked
+    if (replay && replaySpeedRef.current !== 1) wsManagerRef.current.setReplaySpeed(replaySpeedRef.current);
+  }, [venue, replay, demoSettings, handleMessage, handleConnectionChange, handleResync, resetBook]);
+
+  const toggleRecording = useCallback(async () => {
+    const manager = wsManagerRef.current;
+    if (!manager) return;
+
+    if (!manager.isRecording()) {
+      setRecordingNotice(null);
+      setRecording(await manager.startRecording());
+      return;
+    }
+
+    const ndjson = await manager.stopRecording();
+    setRecording(false);
+    if (!ndjson) return;
+    setRecordingNotice(describeTruncation(parseRecordingHeader(ndjson)));
+
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([ndjson], { type: "application/x-ndjson" }));
+    link.download = `${venue}-${symbolRef.current}-${new Date().toISOString().replace(/[:.]/g, "-")}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }, [venue]);
+
+  const loadRecording = useCallback((ndjson: string) => {
+    const recording = parseRecording(ndjson);
+    setRecordingNotice(describeTruncation(recording.header));
+    setReplay({
+      url: registerReplaySession(recording),
+      venue: recording.header.venue,
+      symbol: recording.header.symbol
+    });
+    replaySpeedRef.current = 1;
+    setReplaySpeed(1);
+  }, []);
+
+  const changeReplaySpeed = useCallback((speed: number) => {
+    wsManagerRef.current?.setReplaySpeed(speed);
+    replaySpeedRef.current = speed;
+    setReplaySpeed(speed);
+  }, []);
 
   // Manual reconnect function
   const manualReconnect = useCallback(() => {
@@ -101,40 +388,155 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
     };
   }, [connectWebSocket]);
 
+  // Resubscribe on the existing connection when the trading pair changes
+  useEffect(() => {
+    if (symbolRef.current === symbol) return;
+
+    symbolRef.current = symbol;
+    if (replay) return;
+    resetBook();
+    wsManagerRef.current?.setSymbol(symbol);
+  }, [symbol, replay, resetBook]);
+
+  // Resubscribe at the new depth on the existing connection
+  useEffect(() => {
+    if (depthRef.current === depth) return;
+
+    depthRef.current = depth;
+    resetBook();
+    wsManagerRef.current?.setDepth(depth);
+  }, [depth, resetBook]);
+
+  // Place a new simulated order; it is tracked from the next book if none is available yet
+  useEffect(() => {
+    const book = latestBookRef.current;
+    const placed = book.bids.length > 0 && book.asks.length > 0;
+    // Stops reach the book only when triggered
+    const order = simulatedOrder && !isStopOrder(simulatedOrder.orderType) ? simulatedOrder : null;
+    const tracker = order && placed ? createRestingTracker(order, book) : null;
+    restingRef.current = { order, tracker, placed };
+    setResting(tracker && { order: tracker.current, stats: flowMonitorRef.current.stats(tracker.current.side, tracker.current.price) });
+  }, [simulatedOrder]);
+
+  // Arm a new stop order; it may trigger on the book already showing
+  useEffect(() => {
+    stopRef.current = { order: simulatedOrder && isStopOrder(simulatedOrder.orderType) ? simulatedOrder : null, triggered: false };
+    setStop(null);
+    checkStop(latestBookRef.current);
+  }, [simulatedOrder, checkStop]);
+
+  // Start the delay clock for orders with an execution delay, once a book is available
+  useEffect(() => {
+    const pending = delayedRef.current;
+    if (pending.timer) clearTimeout(pending.timer);
+    delayedRef.current = { order: simulatedOrder && simulatedOrder.timing > 0 ? simulatedOrder : null, submitted: false, due: false, timer: null };
+    setDelayed(null);
+    submitDelayed(latestBookRef.current);
+
+    return () => {
+      if (delayedRef.current.timer) clearTimeout(delayedRef.current.timer);
+    };
+  }, [simulatedOrder, submitDelayed]);
+
+  // Start a new parent order, replacing any still running
+  useEffect(() => {
+    algoRef.current = { order: simulatedOrder && isAlgoOrder(simulatedOrder.orderType) ? simulatedOrder : null, execution: null };
+    setAlgo(null);
+    workAlgo(latestBookRef.current);
+  }, [simulatedOrder, workAlgo]);
+
+  const fillProbabilities = useMemo(() => resting
+    ? FILL_HORIZONS.map(horizon => estimateFillProbability(resting.order, resting.stats, horizon))
+    : [], [resting]);
+
   // Calculate metrics and analysis
   const spreadInfo = getSpreadInfo(orderbook);
-  const imbalance = calculateOrderbookImbalance(orderbook);
   
+  // A replay is priced with the recorded venue's fees, not those of the venue selected behind it
+  const feeTier = getFeeTier(displayVenue, feeTiers?.[displayVenue]);
+  // Prices and sizes display at the streamed instrument's own precision
+  const instrument = getInstrument(displaySymbol, displayVenue);
+
+  // Clicked rows and chart points fill in the order ticket; chart points also size it to sweep through the level
+  const pickPrice = usePricePicker();
+
+  // The order form sizes its quantity presets from this mid
+  const publishReferencePrice = useReferencePricePublisher();
+  useEffect(() => {
+    if (spreadInfo.midPrice > 0) publishReferencePrice({ symbol: displaySymbol, price: spreadInfo.midPrice });
+  }, [publishReferencePrice, displaySymbol, spreadInfo.midPrice]);
+  const pickLevel = useCallback((side: "bids" | "asks", price: number, sweep?: DepthPoint) => {
+    pickPrice({
+      venue: displayVenue,
+      symbol: displaySymbol,
+      side,
+      price: roundToIncrement(price, instrument.tickSize).toFixed(instrument.pricePrecision),
+      sweep: sweep && sweep.size > 0
+        ? { quantity: formatQuantity(sweep.size, instrument), notional: sweep.notional.toFixed(2) }
+        : undefined
+    });
+  }, [pickPrice, displayVenue, displaySymbol, instrument]);
+
+  // Grouping only changes what is shown: the table, depth chart and imbalance read buckets, order metrics the raw book
+  const groupStep = getGroupingStep(grouping, instrument.tickSize, spreadInfo.midPrice);
+  const displayBook = useMemo(() => groupBook(orderbook, groupStep), [orderbook, groupStep]);
+  const imbalance = calculateOrderbookImbalance(displayBook);
+
   // Memoize order metrics to prevent recalculation on every render
+  // A triggered stop is priced on the book it triggered on; until then it previews the live book
   const orderMetrics = useMemo(() => {
     if (simulatedOrder && simulatedOrder.quantity) {
-      return calculateOrderMetrics(orderbook, simulatedOrder);
+      return calculateOrderMetrics(stop?.triggerBook ?? orderbook, simulatedOrder, feeTier);
     }
     return null;
-  }, [orderbook, simulatedOrder]);
+  }, [orderbook, simulatedOrder, feeTier, stop]);
+
+  const algoReport = useMemo(() => algo ? algo.execution.report(feeTier) : null, [algo, feeTier]);
+
+  const delayedExecution = useMemo(() => delayed?.executedBook && simulatedOrder
+    ? calculateDelayedExecution(delayed.submittedBook, delayed.executedBook, simulatedOrder, feeTier)
+    : null, [delayed, simulatedOrder, feeTier]);
 
-  // Memoize highlighted price levels to prevent flickering
+  // Memoize highlighted price levels to prevent flickering; with grouping, the bucket holding the price lights up
   const highlightedPrices = useMemo(() => {
     if (!simulatedOrder || !simulatedOrder.price) return { buy: null, sell: null };
     
     const price = Number(simulatedOrder.price);
     return {
-      buy: simulatedOrder.side === "buy" ? price : null,
-      sell: simulatedOrder.side === "sell" ? price : null
+      buy: simulatedOrder.side === "buy" ? bucketPrice(price, "bids", groupStep) : null,
+      sell: simulatedOrder.side === "sell" ? bucketPrice(price, "asks", groupStep) : null
     };
-  }, [simulatedOrder]);
+  }, [simulatedOrder, groupStep]);
+
+  // Where the resting order sits in its side of the table: behind every level at or better than its price
+  const restingIndex = { bids: -1, asks: -1 };
+  if (resting) {
+    const { side } = resting.order;
+    const price = bucketPrice(resting.order.price, side, groupStep);
+    restingIndex[side] = displayBook[side].filter(level => side === "bids" ? level.price >= price : level.price <= price).length;
+  }
+  const restingRow = resting && (
+    <div className="grid grid-cols-4 gap-2 text-xs sm:text-sm py-1 px-2 rounded bg-blue-500/20 border-l-4 border-blue-400">
+      <div className="text-blue-300 font-mono">{formatCurrency(resting.order.price, instrument)}</div>
+      <div className="text-white font-mono">{formatQuantity(resting.order.quantity - resting.order.filledQuantity, instrument)}</div>
+      <div className="col-span-2 text-blue-300 text-xs self-center">
+        Your order · {formatQuantity(resting.order.betterVolume + resting.order.levelAhead, instrument)} ahead
+      </div>
+    </div>
+  );
 
   // Memoize connection status to prevent flickering
   const connectionStatus = useMemo(() => (
     <div className="flex flex-col gap-1 text-xs">
       <div className="flex items-center gap-2">
         <div className={`w-2 h-2 rounded-full ${
-          wsState.connected ? 'bg-green-400' : 
-          wsState.usingDemo ? 'bg-yellow-400' : 'bg-red-400'
+          wsState.usingDemo ? 'bg-yellow-400' :
+          wsState.connected ? 'bg-green-400' : 'bg-red-400'
         }`}></div>
         <span className="text-white/60">
-          {wsState.connected ? 'Live Data' : 
+          {replay ? wsState.connectionError || 'Replay' :
            wsState.usingDemo ? 'Demo Mode' :
+           wsState.connected ? 'Live Data' : 
            wsState.reconnectAttempts > 0 ? `Reconnecting... (${wsState.reconnectAttempts}/3)` : 'Connecting...'}
         </span>
         {lastUpdate && (
@@ -156,13 +558,98 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
           {wsState.connectionError}
         </div>
       )}
+      {wsState.connected && wsState.lastResyncReason && (
+        <div className="text-yellow-400 text-xs">
+          Book resynced {wsState.resyncCount}× — {wsState.lastResyncReason}
+        </div>
+      )}
       {wsState.usingDemo && (
         <div className="text-yellow-400 text-xs">
           Live data unavailable. Showing realistic demo data for evaluation.
         </div>
       )}
     </div>
-  ), [wsState, lastUpdate, manualReconnect]);
+  ), [wsState, lastUpdate, manualReconnect, replay]);
+
+  const replayControls = (
+    <ReplayControls
+      recording={recording}
+      notice={recordingNotice}
+      canRecord={wsState.connected && !wsState.usingDemo && Boolean(getExchangeAdapter(venue))}
+      replaying={replay !== null}
+      speed={replaySpeed}
+      onToggleRecording={toggleRecording}
+      onLoadRecording={loadRecording}
+      onSpeedChange={changeReplaySpeed}
+      onStep={() => wsManagerRef.current?.stepReplay()}
+      onExit={() => {
+        setReplay(null);
+        setRecordingNotice(null);
+      }}
+    />
+  );
+
+  // Venues cap how deep they stream (OKX 400, Bybit 500), so show what actually arrived
+  const streamedLevels = Math.max(orderbook.bids.length, orderbook.asks.length);
+  const depthSelector = (
+    <label className="flex items-center gap-2 text-xs text-white/60">
+      Book depth
+      <select
+        value={depth}
+        onChange={e => setDepth(Number(e.target.value))}
+        className="bg-gray-900 border border-white/30 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-400"
+      >
+        {BOOK_DEPTHS.map(d => (
+          <option key={d} value={d} className="bg-gray-900 text-white">
+            {d} levels
+          </option>
+        ))}
+      </select>
+      {streamedLevels > 0 && streamedLevels < depth && (
+        <span className="text-white/40">{streamedLevels} streamed</span>
+      )}
+    </label>
+  );
+
+  const groupingSelector = (
+    <label className="flex items-center gap-2 text-xs text-white/60">
+      Group
+      <select
+        value={grouping}
+        onChange={e => setGrouping(e.target.value)}
+        className="bg-gray-900 border border-white/30 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-400"
+      >
+        {getGroupingOptions(instrument.tickSize).map(option => (
+          <option key={option.value} value={option.value} className="bg-gray-900 text-white">
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const refreshSelector = (
+    <label className="flex items-center gap-2 text-xs text-white/60">
+      Refresh
+      <select
+        value={refreshRate}
+        onChange={e => setRefreshRate(Number(e.target.value))}
+        className="bg-gray-900 border border-white/30 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-400"
+      >
+        {REFRESH_RATES.map(rate => (
+          <option key={rate} value={rate} className="bg-gray-900 text-white">
+            {rate} fps
+          </option>
+        ))}
+      </select>
+      {/* Development builds show how many feed updates were coalesced away */}
+      {process.env.NODE_ENV !== "production" && (
+        <span className="text-white/40 font-mono" title="Frames rendered / feed updates dropped by coalescing">
+          {frameStats.rendered} rendered · {frameStats.dropped} dropped
+        </span>
+      )}
+    </label>
+  );
 
   if (orderbook.bids.length === 0 && orderbook.asks.length === 0) {
     return (
@@ -171,9 +658,13 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
           <h2 className="font-bold text-white text-lg sm:text-xl">
             Orderbook
             <span className="text-white/70 text-sm sm:text-base ml-2 block sm:inline">
-              ({VENUES.find(v => v.value === venue)?.label} - {formatSymbolForDisplay(symbol)})
+              ({VENUES.find(v => v.value === displayVenue)?.label} - {formatSymbolForDisplay(displaySymbol)}{replay && " · Replay"})
             </span>
           </h2>
+          {replayControls}
+          {depthSelector}
+          {groupingSelector}
+          {refreshSelector}
           {connectionStatus}
         </div>
         <div className="py-8 sm:py-12 text-center">
@@ -181,8 +672,8 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
             {!wsState.connectionError ? (
               <>
                 <div className="w-8 h-8 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mx-auto mb-4"></div>
-                <p className="text-white/80 font-medium text-sm sm:text-base">Connecting to {VENUES.find(v => v.value === venue)?.label}...</p>
-                <p className="text-white/60 text-xs sm:text-sm mt-2">Establishing real-time WebSocket connection</p>
+                <p className="text-white/80 font-medium text-sm sm:text-base">{replay ? "Loading replay of" : "Connecting to"} {VENUES.find(v => v.value === displayVenue)?.label}...</p>
+                <p className="text-white/60 text-xs sm:text-sm mt-2">{replay ? "Waiting for the recorded snapshot" : "Establishing real-time WebSocket connection"}</p>
                 {wsState.reconnectAttempts > 0 && (
                   <p className="text-yellow-400 text-xs mt-2">
                     Reconnection attempt #{wsState.reconnectAttempts}/3
@@ -198,7 +689,7 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
                   <span className="text-red-400 text-lg">⚠️</span>
                 </div>
                 <p className="text-red-400 font-medium mb-2 text-sm sm:text-base">Connection Failed</p>
-                <p className="text-white/60 text-xs sm:text-sm">Unable to connect to {VENUES.find(v => v.value === venue)?.label}</p>
+                <p className="text-white/60 text-xs sm:text-sm">Unable to connect to {VENUES.find(v => v.value === displayVenue)?.label}</p>
                 <div className="mt-4 p-3 bg-red-500/10 border border-red-400/30 rounded-lg text-sm">
                   <p className="text-red-300 mb-2">Error Details:</p>
                   <p className="text-white/70 text-xs sm:text-sm break-words">{wsState.connectionError}</p>
@@ -230,9 +721,13 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
         <h2 className="font-bold text-white text-lg sm:text-xl">
           Orderbook
           <span className="text-white/70 text-sm sm:text-base ml-2 block sm:inline">
-            ({VENUES.find(v => v.value === venue)?.label} - {formatSymbolForDisplay(symbol)})
+            ({VENUES.find(v => v.value === displayVenue)?.label} - {formatSymbolForDisplay(displaySymbol)}{replay && " · Replay"})
           </span>
         </h2>
+        {replayControls}
+        {depthSelector}
+        {groupingSelector}
+        {refreshSelector}
         {connectionStatus}
       </div>
 
@@ -241,6 +736,7 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
         <div className="text-center mb-4 p-3 bg-yellow-500/10 border border-yellow-400/30 rounded-lg">
           <p className="text-yellow-400 text-sm font-medium">📊 Demo Mode Active</p>
           <p className="text-white/60 text-xs">Live exchange data unavailable. Showing realistic simulation for demonstration purposes.</p>
+          <DemoMarketControls settings={demoSettings} onChange={setDemoSettings} />
         </div>
       )}
 
@@ -249,7 +745,7 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
         <div className="bg-black/30 rounded-lg p-2 sm:p-3 border border-white/10">
           <div className="text-white/60 text-xs">Spread</div>
           <div className="text-white font-mono text-sm sm:text-lg">
-            {formatCurrency(spreadInfo.spread)}
+            {formatCurrency(spreadInfo.spread, instrument)}
           </div>
           <div className="text-white/40 text-xs">
             {formatPercentage(spreadInfo.spreadPercentage)}
@@ -258,7 +754,7 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
         <div className="bg-black/30 rounded-lg p-2 sm:p-3 border border-white/10">
           <div className="text-white/60 text-xs">Mid Price</div>
           <div className="text-white font-mono text-sm sm:text-lg">
-            {formatCurrency(spreadInfo.midPrice)}
+            {formatCurrency(spreadInfo.midPrice, instrument)}
           </div>
         </div>
         <div className="bg-black/30 rounded-lg p-2 sm:p-3 border border-white/10">
@@ -277,8 +773,9 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
           <div className="text-white/60 text-xs">Total Volume</div>
           <div className="text-white font-mono text-sm sm:text-lg">
             {formatQuantity(
-              orderbook.bids.slice(0, 10).reduce((sum: number, level: OrderbookLevel) => sum + level.quantity, 0) +
-              orderbook.asks.slice(0, 10).reduce((sum: number, level: OrderbookLevel) => sum + level.quantity, 0)
+              displayBook.bids.slice(0, 10).reduce((sum: number, level: OrderbookLevel) => sum + level.quantity, 0) +
+              displayBook.asks.slice(0, 10).reduce((sum: number, level: OrderbookLevel) => sum + level.quantity, 0),
+              instrument
             )}
           </div>
         </div>
@@ -291,36 +788,15 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
             <span className="w-3 h-3 bg-green-400 rounded"></span>
             Bids
           </h3>
-          <div className="h-64 sm:h-80 lg:h-96 overflow-y-auto bg-black/20 rounded-lg border border-white/10">
-            <div className="sticky top-0 bg-black/40 backdrop-blur-sm z-10">
-              <div className="grid grid-cols-3 gap-2 text-xs text-white/60 p-2 border-b border-white/20">
-                <div>Price</div>
-                <div>Quantity</div>
-                <div className="hidden sm:block">Total</div>
-                <div className="sm:hidden">Qty</div>
-              </div>
-            </div>
-            <div className="space-y-1 p-2">
-              {orderbook.bids.map((level: OrderbookLevel) => {
-                const isHighlighted = highlightedPrices.buy === level.price;
-                
-                return (
-                  <div 
-                    key={`bid-${level.price}`}
-                    className={`grid grid-cols-3 gap-2 text-xs sm:text-sm py-1 px-2 rounded transition-colors ${
-                      isHighlighted 
-                        ? "bg-yellow-400/20 border-l-4 border-yellow-400" 
-                        : "hover:bg-white/5"
-                    }`}
-                  >
-                    <div className="text-green-400 font-mono">{formatCurrency(level.price)}</div>
-                    <div className="text-white font-mono">{formatQuantity(level.quantity)}</div>
-                    <div className="text-white/70 font-mono">{formatCurrency(level.price * level.quantity)}</div>
-                  </div>
-                );
-              })}
-            </div>
-          </div>
+          <OrderbookTable
+            side="bids"
+            levels={displayBook.bids}
+            instrument={instrument}
+            highlightedPrice={highlightedPrices.buy}
+            restingIndex={restingIndex.bids}
+            restingRow={restingRow}
+            onPick={pickLevel}
+          />
         </div>
 
         <div>
@@ -328,36 +804,15 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
             <span className="w-3 h-3 bg-red-400 rounded"></span>
             Asks
           </h3>
-          <div className="h-64 sm:h-80 lg:h-96 overflow-y-auto bg-black/20 rounded-lg border border-white/10">
-            <div className="sticky top-0 bg-black/40 backdrop-blur-sm z-10">
-              <div className="grid grid-cols-3 gap-2 text-xs text-white/60 p-2 border-b border-white/20">
-                <div>Price</div>
-                <div>Quantity</div>
-                <div className="hidden sm:block">Total</div>
-                <div className="sm:hidden">Qty</div>
-              </div>
-            </div>
-            <div className="space-y-1 p-2">
-              {orderbook.asks.map((level: OrderbookLevel) => {
-                const isHighlighted = highlightedPrices.sell === level.price;
-                
-                return (
-                  <div 
-                    key={`ask-${level.price}`}
-                    className={`grid grid-cols-3 gap-2 text-xs sm:text-sm py-1 px-2 rounded transition-colors ${
-                      isHighlighted 
-                        ? "bg-yellow-400/20 border-l-4 border-yellow-400" 
-                        : "hover:bg-white/5"
-                    }`}
-                  >
-                    <div className="text-red-400 font-mono">{formatCurrency(level.price)}</div>
-                    <div className="text-white font-mono">{formatQuantity(level.quantity)}</div>
-                    <div className="text-white/70 font-mono">{formatCurrency(level.price * level.quantity)}</div>
-                  </div>
-                );
-              })}
-            </div>
-          </div>
+          <OrderbookTable
+            side="asks"
+            levels={displayBook.asks}
+            instrument={instrument}
+            highlightedPrice={highlightedPrices.sell}
+            restingIndex={restingIndex.asks}
+            restingRow={restingRow}
+            onPick={pickLevel}
+          />
         </div>
       </div>
 
@@ -365,12 +820,13 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
       <div className="mb-4 sm:mb-6">
         <h3 className="text-white/80 font-semibold mb-3">Market Depth Visualization</h3>
         <div className="overflow-x-auto">
-          <DepthChart 
-            bids={orderbook.bids} 
-            asks={orderbook.asks} 
-            width={800} 
-            height={200}
+          <DepthChart
+            bids={displayBook.bids}
+            asks={displayBook.asks}
+            height={220}
+            instrument={instrument}
             simulatedOrder={simulatedOrder}
+            onPick={pickLevel}
           />
         </div>
       </div>
@@ -382,6 +838,33 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
             <span className="w-4 h-4 bg-blue-400 rounded"></span>
             Order Impact Analysis
           </h3>
+
+          {/* Stop trigger state */}
+          {stop && simulatedOrder && (
+            <div className={`mb-3 p-3 rounded-lg border text-sm ${stop.triggeredAt ? "text-purple-300 bg-purple-500/10 border-purple-400/30" : "text-white/80 bg-white/5 border-white/20"}`}>
+              {stop.triggeredAt ? (
+                <span>
+                  Stop triggered at {new Date(stop.triggeredAt).toLocaleTimeString()} with the {simulatedOrder.trigger === "last" ? "inferred last" : "mid"} price at{" "}
+                  <span className="font-mono">{formatCurrency(stop.referencePrice ?? 0, instrument)}</span>
+                </span>
+              ) : (
+                <span>
+                  Stop armed: triggers when the {simulatedOrder.trigger === "last" ? "inferred last" : "mid"} price {simulatedOrder.side === "buy" ? "rises to" : "falls to"}{" "}
+                  <span className="font-mono">{formatCurrency(Number(simulatedOrder.stopPrice), instrument)}</span>
+                  {" "}(now {stop.referencePrice === null ? "not yet inferred" : <span className="font-mono">{formatCurrency(stop.referencePrice, instrument)}</span>}).
+                  <span className="text-white/50"> Figures below preview the order as if it triggered now.</span>
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Outcome for the order type and time in force */}
+          {simulatedOrder && !isAlgoOrder(simulatedOrder.orderType) && (!stop || stop.triggeredAt) && (
+            <div className={`mb-4 p-3 rounded-lg border text-sm ${STATUS_STYLES[orderMetrics.status].className}`}>
+              <span className="font-semibold">{STATUS_STYLES[orderMetrics.status].label}</span>
+              {orderMetrics.statusReason && <span className="text-white/70"> — {orderMetrics.statusReason}</span>}
+            </div>
+          )}
           
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 mb-4">
             <div className="text-center">
@@ -399,7 +882,7 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
                 orderMetrics.marketImpact < 0.01 ? 'text-green-400' : 
                 orderMetrics.marketImpact < 0.1 ? 'text-yellow-400' : 'text-red-400'
               }`}>
-                {formatCurrency(orderMetrics.marketImpact)}
+                {formatCurrency(orderMetrics.marketImpact, instrument)}
               </div>
             </div>
             <div className="text-center">
@@ -408,7 +891,7 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
                 orderMetrics.slippage < 0.01 ? 'text-green-400' : 
                 orderMetrics.slippage < 0.1 ? 'text-yellow-400' : 'text-red-400'
               }`}>
-                {formatCurrency(orderMetrics.slippage)}
+                {formatCurrency(orderMetrics.slippage, instrument)}
               </div>
             </div>
             <div className="text-center">
@@ -419,17 +902,228 @@ const OrderbookViewer = ({ venue, symbol, simulatedOrder }: OrderbookViewerProps
             </div>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          {/* Notional orders: the base quantity the book walk resolved to */}
+          {simulatedOrder?.sizing === "quote" && (
+            <div className="mb-4 text-sm text-white/70">
+              {formatCurrency(Number(simulatedOrder.quantity))} notional fills{" "}
+              <span className="text-white font-mono">{formatQuantity(orderMetrics.filledQuantity, instrument)} {displaySymbol.split("-")[0]}</span> now
+              {orderMetrics.requestedQuantity - orderMetrics.filledQuantity > 1e-9 && (
+                <span> of <span className="font-mono">{formatQuantity(orderMetrics.requestedQuantity, instrument)}</span> sized</span>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div>
               <div className="text-white/60">Average Fill Price:</div>
-              <div className="text-white font-mono text-base sm:text-lg">{formatCurrency(orderMetrics.averageFillPrice)}</div>
+              <div className="text-white font-mono text-base sm:text-lg">{formatCurrency(orderMetrics.averageFillPrice, instrument)}</div>
+            </div>
+            <div>
+              <div className="text-white/60">Effective Price:</div>
+              <div className="text-white font-mono text-base sm:text-lg">{formatCurrency(orderMetrics.effectivePrice, instrument)}</div>
+              <div className="text-white/40 text-xs">incl. fees</div>
             </div>
             <div>
-              <div className="text-white/60">Total Cost:</div>
+              <div className="text-white/60">Gross {simulatedOrder?.side === "sell" ? "Proceeds" : "Cost"}:</div>
               <div className="text-white font-mono text-base sm:text-lg">{formatCurrency(orderMetrics.totalCost)}</div>
+              <div className="text-white/40 text-xs">
+                {simulatedOrder?.side === "sell" ? "−" : "+"} {formatCurrency(orderMetrics.feeCost)} fees ({feeTier.label}, {formatPercentage(feeTier.taker * 100, 3)} taker)
+              </div>
+            </div>
+            <div>
+              <div className="text-white/60">Net {simulatedOrder?.side === "sell" ? "Proceeds" : "Cost"}:</div>
+              <div className="text-white font-mono text-base sm:text-lg">{formatCurrency(orderMetrics.netCost)}</div>
             </div>
           </div>
 
+          {/* Algorithmic execution: child orders against the streaming book versus the arrival mid */}
+          {algoReport && (
+            <div className="mt-4 p-3 sm:p-4 bg-green-500/10 border border-green-400/30 rounded-lg text-sm">
+              <div className="text-green-300 font-semibold mb-3">
+                {ORDER_TYPES.find(o => o.value === algoReport.algo)?.label} {formatQuantity(algoReport.requestedQuantity, instrument)}
+                <span className="text-white/50 font-normal ml-2">
+                  {algoReport.complete ? "finished" : "running"} after {(algoReport.elapsedMs / 1000).toFixed(1)}s
+                </span>
+              </div>
+              <div className="w-full h-2 bg-black/30 rounded-full overflow-hidden mb-3">
+                <div
+                  className="h-full bg-green-400 transition-all duration-300"
+                  style={{ width: `${Math.min(100, (algoReport.filledQuantity / algoReport.requestedQuantity) * 100)}%` }}
+                ></div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
+                <div>
+                  <div className="text-white/60 text-xs">Filled</div>
+                  <div className="text-white font-mono">{formatQuantity(algoReport.filledQuantity, instrument)}</div>
+                  <div className="text-white/40 text-xs">
+                    {algoReport.workingQuantity > 0 ? `${formatQuantity(algoReport.workingQuantity, instrument)} working` : `of ${formatQuantity(algoReport.requestedQuantity, instrument)}`}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-white/60 text-xs">Average Price</div>
+                  <div className="text-white font-mono">{formatCurrency(algoReport.averagePrice, instrument)}</div>
+                  <div className="text-white/40 text-xs">{formatCurrency(algoReport.feeCost)} fees</div>
+                </div>
+                <div>
+                  <div className="text-white/60 text-xs">Arrival Mid</div>
+                  <div className="text-white font-mono">{formatCurrency(algoReport.arrivalMid, instrument)}</div>
+                </div>
+                <div>
+                  <div className="text-white/60 text-xs">Shortfall</div>
+                  <div className={`font-mono font-semibold ${algoReport.shortfall > 0 ? "text-red-400" : "text-green-400"}`}>
+                    {formatCurrency(algoReport.shortfall)}
+                  </div>
+                  <div className="text-white/40 text-xs">{algoReport.shortfallBps.toFixed(1)} bps incl. fees</div>
+                </div>
+              </div>
+              {algoReport.slices.length > 0 ? (
+                <div className="max-h-64 overflow-y-auto">
+                  <table className="w-full text-xs sm:text-sm">
+                    <thead>
+                      <tr className="text-white/60 text-left border-b border-white/20">
+                        <th className="py-1 pr-2 font-normal">#</th>
+                        <th className="py-1 pr-2 font-normal">Time</th>
+                        <th className="py-1 pr-2 font-normal">Liquidity</th>
+                        <th className="py-1 pr-2 font-normal">Child Qty</th>
+                        <th className="py-1 pr-2 font-normal">Filled</th>
+                        <th className="py-1 pr-2 font-normal">Avg Price</th>
+                        <th className="py-1 font-normal">Cum. Avg</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                      {algoReport.slices.map(slice => (
+                        <tr key={slice.index} className="border-b border-white/5">
+                          <td className="py-1 pr-2 text-white/60">{slice.index}</td>
+                          <td className="py-1 pr-2 text-white/70">+{(slice.offsetMs / 1000).toFixed(1)}s</td>
+                          <td className="py-1 pr-2 text-white/70 font-sans">{slice.liquidity}</td>
+                          <td className="py-1 pr-2 text-white">{formatQuantity(slice.requestedQuantity, instrument)}</td>
+                          <td className={`py-1 pr-2 ${slice.filledQuantity < slice.requestedQuantity - 1e-9 ? "text-yellow-400" : "text-white"}`}>
+                            {formatQuantity(slice.filledQuantity, instrument)}
+                          </td>
+                          <td className="py-1 pr-2 text-white">{slice.filledQuantity > 0 ? formatCurrency(slice.averagePrice, instrument) : "—"}</td>
+                          <td className="py-1 text-white">{slice.cumulativeQuantity > 0 ? formatCurrency(slice.cumulativeAveragePrice, instrument) : "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-white/60 text-xs sm:text-sm">Waiting for the first child order to fill...</p>
+              )}
+              {algoReport.complete && algoReport.remainingQuantity > 1e-9 && (
+                <p className="mt-3 text-yellow-400 text-xs sm:text-sm">
+                  {formatQuantity(algoReport.remainingQuantity, instrument)} left unfilled when the algorithm stopped
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Delayed execution: predicted at submission versus realized after the delay */}
+          {delayed && (
+            <div className="mt-4 p-3 sm:p-4 bg-purple-500/10 border border-purple-400/30 rounded-lg text-sm">
+              <div className="text-purple-300 font-semibold mb-3">
+                Delayed Execution ({simulatedOrder?.timing}s)
+                <span className="text-white/50 font-normal ml-2">
+                  {delayedExecution
+                    ? `executed at ${new Date(delayed.executeAt).toLocaleTimeString()}`
+                    : `executing in ${Math.max(0, (delayed.executeAt - (lastUpdate?.getTime() ?? delayed.submittedAt)) / 1000).toFixed(1)}s`}
+                </span>
+              </div>
+              {delayedExecution ? (
+                <>
+                  <div className="grid grid-cols-3 gap-2 text-xs sm:text-sm">
+                    <div className="text-white/60"></div>
+                    <div className="text-white/60">Predicted</div>
+                    <div className="text-white/60">Realized</div>
+
+                    <div className="text-white/60">Avg Fill Price</div>
+                    <div className="text-white font-mono">{formatCurrency(delayedExecution.predicted.averageFillPrice, instrument)}</div>
+                    <div className="text-white font-mono">{formatCurrency(delayedExecution.realized.averageFillPrice, instrument)}</div>
+
+                    <div className="text-white/60">Effective Price</div>
+                    <div className="text-white font-mono">{formatCurrency(delayedExecution.predicted.effectivePrice, instrument)}</div>
+                    <div className="text-white font-mono">{formatCurrency(delayedExecution.realized.effectivePrice, instrument)}</div>
+
+                    <div className="text-white/60">Slippage</div>
+                    <div className="text-white font-mono">{formatCurrency(delayedExecution.predicted.slippage, instrument)}</div>
+                    <div className="text-white font-mono">{formatCurrency(delayedExecution.realized.slippage, instrument)}</div>
+
+                    <div className="text-white/60">Fill</div>
+                    <div className="text-white font-mono">{formatPercentage(delayedExecution.predicted.fillPercentage)}</div>
+                    <div className="text-white font-mono">{formatPercentage(delayedExecution.realized.fillPercentage)}</div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-3 text-xs sm:text-sm">
+                    <div>
+                      <span className="text-white/60">Mid drift: </span>
+                      <span className="text-white font-mono">{delayedExecution.midDrift >= 0 ? "+" : ""}{formatCurrency(delayedExecution.midDrift, instrument)}</span>
+                    </div>
+                    <div>
+                      <span className="text-white/60">Fill price drift: </span>
+                      <span className="text-white font-mono">{delayedExecution.fillPriceDrift >= 0 ? "+" : ""}{formatCurrency(delayedExecution.fillPriceDrift, instrument)}</span>
+                    </div>
+                    <div>
+                      <span className="text-white/60">Cost of waiting: </span>
+                      <span className={`font-mono font-semibold ${delayedExecution.costOfWaiting > 0 ? "text-red-400" : "text-green-400"}`}>
+                        {formatCurrency(delayedExecution.costOfWaiting)}
+                      </span>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <p className="text-white/60 text-xs sm:text-sm">
+                  Book captured at {new Date(delayed.submittedAt).toLocaleTimeString()}; the order runs against the live book when the delay ends.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Resting limit order: queue position and fill probability */}
+          {resting && (
+            <div className="mt-4 p-3 sm:p-4 bg-blue-500/10 border border-blue-400/30 rounded-lg text-sm">
+              <div className="text-blue-300 font-semibold mb-3">
+                Resting {formatQuantity(resting.order.quantity, instrument)} @ {formatCurrency(resting.order.price, instrument)}
+                <span className="text-white/50 font-normal ml-2">
+                  {resting.order.atTouch ? "at the touch" : `${formatQuantity(resting.order.betterVolume, instrument)} at better prices`}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3">
+                <div>
+                  <div className="text-white/60 text-xs">Queue Ahead</div>
+                  <div className="text-white font-mono">{formatQuantity(resting.order.betterVolume + resting.order.levelAhead, instrument)}</div>
+                  <div className="text-white/40 text-xs">{formatQuantity(resting.order.levelAhead, instrument)} at this level</div>
+                </div>
+                <div>
+                  <div className="text-white/60 text-xs">Inferred Filled</div>
+                  <div className="text-white font-mono">{formatQuantity(resting.order.filledQuantity, instrument)}</div>
+                </div>
+                <div>
+                  <div className="text-white/60 text-xs">Depletion Rate</div>
+                  <div className="text-white font-mono">{formatQuantity(resting.stats.volumePerSecond, instrument)}/s</div>
+                  <div className="text-white/40 text-xs">over {resting.stats.observedSeconds.toFixed(0)}s observed</div>
+                </div>
+                <div>
+                  <div className="text-white/60 text-xs">Mean Depletion Size</div>
+                  <div className="text-white font-mono">{formatQuantity(resting.stats.meanEventSize, instrument)}</div>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {fillProbabilities.map(p => (
+                  <div
+                    key={p.horizon}
+                    className={`rounded p-2 text-center ${p.horizon === simulatedOrder?.timing ? "bg-blue-500/20 border border-blue-400/50" : "bg-black/30"}`}
+                  >
+                    <div className="text-white/60 text-xs">Within {p.horizon}s</div>
+                    <div className="text-white font-mono">{formatPercentage(p.anyFill * 100, 0)}</div>
+                    <div className="text-white/40 text-xs">full: {formatPercentage(p.fullFill * 100, 0)}</div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-white/40 text-xs mt-2">
+                The feed carries no trades: fills and depletion are inferred from size leaving the book, so cancellations count as fills and these estimates run optimistic. The book is sampled every 50ms, so size that leaves and returns between samples goes unseen.
+              </p>
+            </div>
+          )}
+
           {/* Warnings */}
           {(orderMetrics.priceImpactWarning || orderMetrics.liquidityWarning) && (
             <div className="mt-4 space-y-2">
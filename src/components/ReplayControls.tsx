@@ -0,0 +1,117 @@
+import { useRef, useState } from "react";
+
+export const REPLAY_SPEEDS = [
+  { label: "Step", value: 0 },
+  { label: "0.5×", value: 0.5 },
+  { label: "1×", value: 1 },
+  { label: "4×", value: 4 },
+  { label: "10×", value: 10 },
+];
+
+export interface ReplayControlsProps {
+  recording: boolean;
+  notice?: string | null; // e.g. the recording was cut off at its size limit
+  canRecord: boolean;
+  replaying: boolean;
+  speed: number;
+  onToggleRecording: () => void;
+  onLoadRecording: (ndjson: string) => void; // throws on files that are not recordings
+  onSpeedChange: (speed: number) => void;
+  onStep: () => void;
+  onExit: () => void;
+}
+
+const buttonClass = "px-2 py-1 border rounded text-xs transition disabled:opacity-40 disabled:cursor-not-allowed";
+
+const ReplayControls = ({
+  recording,
+  notice,
+  canRecord,
+  replaying,
+  speed,
+  onToggleRecording,
+  onLoadRecording,
+  onSpeedChange,
+  onStep,
+  onExit
+}: ReplayControlsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onLoadRecording(await file.text());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read recording");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+      {replaying ? (
+        <>
+          <label className="flex items-center gap-2">
+            Replay speed
+            <select
+              value={speed}
+              onChange={e => onSpeedChange(Number(e.target.value))}
+              className="bg-gray-900 border border-white/30 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-400"
+            >
+              {REPLAY_SPEEDS.map(option => (
+                <option key={option.value} value={option.value} className="bg-gray-900 text-white">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={onStep}
+            disabled={speed !== 0}
+            className={`${buttonClass} bg-blue-500/20 border-blue-400/50 text-blue-300 hover:bg-blue-500/30`}
+          >
+            Step
+          </button>
+          <button
+            onClick={onExit}
+            className={`${buttonClass} bg-white/10 border-white/30 text-white/80 hover:bg-white/20`}
+          >
+            Exit Replay
+          </button>
+        </>
+      ) : (
+        <>
+          <button
+            onClick={onToggleRecording}
+            disabled={!canRecord}
+            className={`${buttonClass} ${recording
+              ? "bg-red-500/20 border-red-400/50 text-red-300 hover:bg-red-500/30"
+              : "bg-white/10 border-white/30 text-white/80 hover:bg-white/20"}`}
+          >
+            {recording ? "● Stop & Download" : "Record"}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={`${buttonClass} bg-white/10 border-white/30 text-white/80 hover:bg-white/20`}
+          >
+            Load Replay
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ndjson,.jsonl,application/x-ndjson"
+            onChange={e => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </>
+      )}
+      {notice && <span className="text-yellow-400">{notice}</span>}
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default ReplayControls;
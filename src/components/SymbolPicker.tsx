@@ -0,0 +1,127 @@
+import { useState, useMemo, useRef } from "react";
+import { EXCHANGE_APIS, VENUE_COLORS, listsSymbol } from "@/lib/exchanges";
+import { searchSymbols, type SymbolOption } from "@/lib/symbolCatalogue";
+
+interface SymbolPickerProps {
+  id?: string;
+  symbols: SymbolOption[];
+  value: string;
+  onChange: (symbol: string) => void;
+}
+
+// Rendering every listing at once makes typing sluggish; search narrows it down
+const MAX_RESULTS = 50;
+
+const LIVE_VENUES = Object.keys(EXCHANGE_APIS);
+
+export default function SymbolPicker({ id, symbols, value, onChange }: SymbolPickerProps) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => searchSymbols(symbols, query, MAX_RESULTS), [symbols, query]);
+  const selected = symbols.find(s => s.value === value);
+
+  const choose = (option: SymbolOption) => {
+    onChange(option.value);
+    setQuery("");
+    setOpen(false);
+  };
+
+  const moveHighlight = (index: number) => {
+    const next = Math.max(0, Math.min(results.length - 1, index));
+    setHighlighted(next);
+    listRef.current?.children[next]?.scrollIntoView({ block: "nearest" });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      moveHighlight(open ? highlighted + 1 : 0);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      moveHighlight(highlighted - 1);
+    } else if (e.key === "Enter" && open && results[highlighted]) {
+      e.preventDefault();
+      choose(results[highlighted]);
+    } else if (e.key === "Escape") {
+      setQuery("");
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={id ? `${id}-options` : undefined}
+        autoComplete="off"
+        value={open ? query : selected?.label || value}
+        placeholder={selected?.label || "Search symbols"}
+        onFocus={() => {
+          setOpen(true);
+          setHighlighted(0);
+        }}
+        onBlur={() => {
+          setQuery("");
+          setOpen(false);
+        }}
+        onChange={e => {
+          setQuery(e.target.value);
+          setOpen(true);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        className="w-full bg-gray-900 border border-white/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 text-white text-sm sm:text-base focus:outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/20 transition"
+      />
+
+      {open && (
+        <ul
+          id={id ? `${id}-options` : undefined}
+          ref={listRef}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto bg-gray-900 border border-white/20 rounded-lg shadow-xl"
+        >
+          {results.length === 0 && (
+            <li className="px-3 py-2 text-white/50 text-sm">No symbols match &quot;{query}&quot;</li>
+          )}
+          {results.map((option, i) => (
+            <li
+              key={option.value}
+              role="option"
+              aria-selected={option.value === value}
+              // Keeps focus in the input so blur does not close the list before the click lands
+              onMouseDown={e => {
+                e.preventDefault();
+                choose(option);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`flex items-center justify-between gap-2 px-3 py-2 cursor-pointer text-sm ${
+                i === highlighted ? "bg-blue-500/20" : ""
+              } ${option.value === value ? "text-blue-300" : "text-white"}`}
+            >
+              <span className="font-semibold">{option.label}</span>
+              <span className="flex gap-1">
+                {LIVE_VENUES.filter(venue => listsSymbol(option.value, venue)).map(venue => (
+                  <span
+                    key={venue}
+                    title={EXCHANGE_APIS[venue].name}
+                    className={`w-2 h-2 rounded-full ${VENUE_COLORS[venue]?.bg || "bg-white/40"}`}
+                  />
+                ))}
+              </span>
+            </li>
+          ))}
+          {results.length === MAX_RESULTS && (
+            <li className="px-3 py-2 text-white/40 text-xs">Showing the first {MAX_RESULTS} matches; type to narrow down</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
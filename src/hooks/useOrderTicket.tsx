@@ -0,0 +1,121 @@
+"use client";
+import { createContext, useContext, useState, useCallback, useMemo, type ReactNode } from "react";
+import { VENUES } from "@/lib/exchanges";
+import { SYMBOLS, ORDER_TYPES, SIDES, SIZING_MODES } from "@/lib/orderFormOptions";
+
+// The order being composed, shared by the form and the book views that can price it
+export interface OrderTicket {
+  venue: string;
+  symbol: string;
+  orderType: string;
+  side: string;
+  price: string;
+  quantity: string; // quote notional when sizing is "quote"
+  sizing: string;
+}
+
+// A level picked in the book table or depth chart, already formatted at the instrument's precision
+export interface PricePick {
+  venue: string;
+  symbol: string;
+  side: "bids" | "asks";
+  price: string;
+  sweep?: { quantity: string; notional: string }; // everything from the touch through the picked level
+}
+
+// The book view's mid for the symbol it shows, so the form can size presets without a feed of its own
+export interface ReferencePrice {
+  symbol: string;
+  price: number;
+}
+
+interface OrderTicketActions {
+  updateTicket: (changes: Partial<OrderTicket>) => void;
+  pickPrice: (pick: PricePick) => void;
+  publishReferencePrice: (reference: ReferencePrice) => void;
+}
+
+const DEFAULT_TICKET: OrderTicket = {
+  venue: VENUES[0].value,
+  symbol: SYMBOLS[0].value,
+  orderType: ORDER_TYPES[0].value,
+  side: SIDES[0].value,
+  price: "",
+  quantity: "",
+  sizing: SIZING_MODES[0].value
+};
+
+// Order types with a limit price keep it when a level is picked; the rest become limit orders
+const PRICED_ORDER_TYPES = ["limit", "stop-limit", "iceberg"];
+
+// Presets are rounded to readable sizes, so the reference only moves when the mid does by this fraction
+const REFERENCE_PRICE_TOLERANCE = 0.05;
+
+// Actions live in their own context so views that only pick prices skip re-rendering on every keystroke
+const OrderTicketContext = createContext<OrderTicket | null>(null);
+const OrderTicketActionsContext = createContext<OrderTicketActions | null>(null);
+const ReferencePriceContext = createContext<ReferencePrice | null>(null);
+
+export function OrderTicketProvider({ children }: { children: ReactNode }) {
+  const [ticket, setTicket] = useState<OrderTicket>(DEFAULT_TICKET);
+  const [reference, setReference] = useState<ReferencePrice | null>(null);
+
+  const updateTicket = useCallback((changes: Partial<OrderTicket>) => {
+    setTicket(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  // A picked level is taken: asks are bought, bids are sold
+  const pickPrice = useCallback((pick: PricePick) => {
+    setTicket(prev => ({
+      ...prev,
+      venue: pick.venue,
+      symbol: pick.symbol,
+      side: pick.side === "asks" ? "buy" : "sell",
+      orderType: PRICED_ORDER_TYPES.includes(prev.orderType) ? prev.orderType : "limit",
+      price: pick.price,
+      quantity: pick.sweep ? (prev.sizing === "quote" ? pick.sweep.notional : pick.sweep.quantity) : prev.quantity
+    }));
+  }, []);
+
+  // Called on every book; returning the previous state skips the re-render while the mid stays within tolerance
+  const publishReferencePrice = useCallback((next: ReferencePrice) => {
+    setReference(prev => prev && prev.symbol === next.symbol && Math.abs(next.price / prev.price - 1) < REFERENCE_PRICE_TOLERANCE
+      ? prev
+      : next);
+  }, []);
+
+  const actions = useMemo(() => ({ updateTicket, pickPrice, publishReferencePrice }), [updateTicket, pickPrice, publishReferencePrice]);
+
+  return (
+    <OrderTicketActionsContext.Provider value={actions}>
+      <ReferencePriceContext.Provider value={reference}>
+        <OrderTicketContext.Provider value={ticket}>{children}</OrderTicketContext.Provider>
+      </ReferencePriceContext.Provider>
+    </OrderTicketActionsContext.Provider>
+  );
+}
+
+export function useOrderTicket(): { ticket: OrderTicket } & OrderTicketActions {
+  const ticket = useContext(OrderTicketContext);
+  const actions = useContext(OrderTicketActionsContext);
+  if (!ticket || !actions) throw new Error("useOrderTicket must be used inside an OrderTicketProvider");
+  return { ticket, ...actions };
+}
+
+export function usePricePicker(): (pick: PricePick) => void {
+  const actions = useContext(OrderTicketActionsContext);
+  if (!actions) throw new Error("usePricePicker must be used inside an OrderTicketProvider");
+  return actions.pickPrice;
+}
+
+export function useReferencePricePublisher(): (reference: ReferencePrice) => void {
+  const actions = useContext(OrderTicketActionsContext);
+  if (!actions) throw new Error("useReferencePricePublisher must be used inside an OrderTicketProvider");
+  return actions.publishReferencePrice;
+}
+
+// The last reported mid for `symbol`, or null while the book view shows another symbol
+export function useReferencePrice(symbol: string): number | null {
+  const reference = useContext(ReferencePriceContext);
+  return reference?.symbol === symbol ? reference.price : null;
+}
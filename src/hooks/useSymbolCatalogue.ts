@@ -0,0 +1,47 @@
+import { useState, useEffect } from "react";
+import { registerSymbolMappings } from "@/lib/exchanges";
+import { registerInstruments } from "@/lib/instruments";
+import { SYMBOLS } from "@/lib/orderFormOptions";
+import type { SymbolCatalogue, SymbolOption } from "@/lib/symbolCatalogue";
+
+export type CatalogueStatus = "loading" | "ready" | "fallback";
+
+// One request per page load, shared by every component that needs the catalogue
+let catalogueRequest: Promise<SymbolCatalogue | null> | null = null;
+
+function loadCatalogue(): Promise<SymbolCatalogue | null> {
+  catalogueRequest ??= fetch("/api/instruments")
+    .then(response => response.ok ? response.json() as Promise<SymbolCatalogue> : null)
+    .then(catalogue => {
+      if (!catalogue) return null;
+      // Venue symbols and rules must be in place before any component renders the new symbols
+      registerSymbolMappings(catalogue.mappings);
+      Object.entries(catalogue.instruments).forEach(([venue, specs]) => registerInstruments(venue, specs));
+      return catalogue;
+    })
+    .catch(error => {
+      console.warn("Symbol catalogue unavailable, using built-in symbols:", error);
+      return null;
+    });
+  return catalogueRequest;
+}
+
+// Symbols every venue lists, falling back to the built-in pairs when the catalogue cannot load
+export function useSymbolCatalogue() {
+  const [symbols, setSymbols] = useState<SymbolOption[]>(SYMBOLS);
+  const [status, setStatus] = useState<CatalogueStatus>("loading");
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCatalogue().then(catalogue => {
+      if (cancelled) return;
+      if (catalogue) setSymbols(catalogue.symbols);
+      setStatus(catalogue ? "ready" : "fallback");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { symbols, status };
+}
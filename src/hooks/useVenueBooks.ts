@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { VENUES, listsSymbol } from "@/lib/exchanges";
+import type { VenueBook } from "@/lib/consolidatedBook";
+import { BookFeed } from "@/lib/bookFeed";
+
+export type VenueStatus = "connecting" | "live" | "demo" | "down";
+
+export const LIVE_VENUES = VENUES.filter(v => v.value !== "demo").map(v => v.value);
+
+// One live connection per venue listing the base symbol; only venues streaming real data are returned
+export function useVenueBooks(symbol: string, enabled: boolean, venues: string[] = LIVE_VENUES) {
+  const [books, setBooks] = useState<{ [venue: string]: VenueBook }>({});
+  const [status, setStatus] = useState<{ [venue: string]: VenueStatus }>({});
+  const managersRef = useRef<{ [venue: string]: BookFeed }>({});
+  const symbolRef = useRef(symbol);
+  // A symbol change that alters which venues list it reconnects; otherwise venues resubscribe in place
+  const venueKey = venues.filter(venue => listsSymbol(symbol, venue)).join(",");
+
+  useEffect(() => {
+    if (!enabled || !venueKey) return;
+
+    const managers: { [venue: string]: BookFeed } = {};
+
+    venueKey.split(",").forEach(venue => {
+      setStatus(prev => ({ ...prev, [venue]: "connecting" }));
+      managers[venue] = new BookFeed(
+        venue,
+        symbolRef.current,
+        data => setBooks(prev => ({
+          ...prev,
+          [venue]: {
+            bids: data.bids.map(([price, quantity]) => ({ price, quantity })),
+            asks: data.asks.map(([price, quantity]) => ({ price, quantity }))
+          }
+        })),
+        (connected, error) => {
+          // A venue that fell back to simulated data must not leak into multi-venue results
+          const usingDemo = connected && Boolean(error?.includes("Demo"));
+          setStatus(prev => ({ ...prev, [venue]: usingDemo ? "demo" : connected ? "live" : "down" }));
+          if (usingDemo || !connected) {
+            setBooks(prev => Object.fromEntries(Object.entries(prev).filter(([v]) => v !== venue)));
+          }
+        }
+      );
+      managers[venue].connect();
+    });
+    managersRef.current = managers;
+
+    return () => {
+      Object.values(managers).forEach(manager => manager.disconnect());
+      managersRef.current = {};
+      setBooks({});
+      setStatus({});
+    };
+  }, [venueKey, enabled]);
+
+  // Resubscribe every venue on its existing connection
+  useEffect(() => {
+    if (symbolRef.current === symbol) return;
+
+    symbolRef.current = symbol;
+    setBooks({});
+    Object.values(managersRef.current).forEach(manager => manager.setSymbol(symbol));
+  }, [symbol]);
+
+  const liveBooks = useMemo(() => Object.fromEntries(
+    Object.entries(books).filter(([venue]) => status[venue] === "live")
+  ), [books, status]);
+
+  return { books: liveBooks, status };
+}
@@ -0,0 +1,37 @@
+// Drives a BookEngine from raw venue messages, the way WebSocketManager does, and records what it emits
+import { BookEngine } from '../../bookEngine';
+import type { OrderbookSnapshot } from '../../restApi';
+import type { ExchangeAdapter, FeedEvent, OrderbookData } from '../types';
+
+export interface EngineHarness {
+  engine: BookEngine;
+  books: OrderbookData[];
+  resyncs: string[];
+  feed: (message: unknown) => FeedEvent;
+  latest: () => OrderbookData | undefined;
+}
+
+export function createEngineHarness(
+  adapter: ExchangeAdapter,
+  fetchSnapshot: (limit: number) => Promise<OrderbookSnapshot | null> = () => Promise.resolve(null)
+): EngineHarness {
+  const books: OrderbookData[] = [];
+  const resyncs: string[] = [];
+  const engine = new BookEngine(adapter, {
+    onBook: data => books.push(data),
+    onResync: reason => resyncs.push(reason),
+    fetchSnapshot
+  });
+
+  return {
+    engine,
+    books,
+    resyncs,
+    feed: message => {
+      const event = adapter.decode(message);
+      if (event.kind !== 'control') engine.handle(event);
+      return event;
+    },
+    latest: () => books[books.length - 1]
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { binanceAdapter, BINANCE_FULL_DEPTH } from './binance';
+import { createEngineHarness } from './__fixtures__/engineHarness';
+import fixtures from './__fixtures__/binance.json';
+import type { RawLevel } from '../orderBook';
+
+const restSnapshot = () => ({
+  bids: fixtures.restSnapshot.bids as RawLevel[],
+  asks: fixtures.restSnapshot.asks as RawLevel[],
+  updateId: fixtures.restSnapshot.lastUpdateId
+});
+
+describe('binanceAdapter', () => {
+  it('decodes partial depth streams as snapshots', () => {
+    expect(binanceAdapter.decode(fixtures.subscribed)).toMatchObject({ kind: 'control', control: 'subscribed' });
+    expect(binanceAdapter.decode(fixtures.partialDepth)).toMatchObject({
+      kind: 'snapshot',
+      channel: binanceAdapter.channelFor({ symbol: 'BTCUSDT', depth: 5 }),
+      instrument: 'BTCUSDT',
+      sequence: 3401877211
+    });
+  });
+
+  it('syncs the diff stream from a REST snapshot, skipping updates it already covers', async () => {
+    const fetchSnapshot = vi.fn(() => Promise.resolve(restSnapshot()));
+    const harness = createEngineHarness(binanceAdapter, fetchSnapshot);
+    fixtures.diffUpdates.forEach(update => {
+      expect(harness.feed(update)).toMatchObject({ kind: 'delta', channel: 'btcusdt@depth@100ms' });
+    });
+    expect(harness.books).toHaveLength(0);
+
+    await vi.waitFor(() => expect(harness.books).toHaveLength(1));
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    expect(fetchSnapshot).toHaveBeenCalledWith(BINANCE_FULL_DEPTH);
+    expect(harness.resyncs).toEqual([]);
+    // The first update ends before the snapshot, so its 0.07 never lands
+    expect(harness.latest()).toEqual({
+      bids: [[67230.1, 0.1142], [67230, 0.05]],
+      asks: [[67230.11, 0.5283], [67231, 0.25]]
+    });
+  });
+
+  it('resyncs when diff updates are missing after the last applied id', async () => {
+    const harness = createEngineHarness(binanceAdapter, () => Promise.resolve(restSnapshot()));
+    fixtures.diffUpdates.forEach(update => harness.feed(update));
+    await vi.waitFor(() => expect(harness.books).toHaveLength(1));
+
+    harness.feed(fixtures.gapUpdate);
+    expect(harness.resyncs).toEqual(['Binance depth updates missing after 3401877270']);
+  });
+});
@@ -0,0 +1,99 @@
+// Binance US combined streams: partial depth snapshots, or the diff stream synced from a REST snapshot
+import { EXCHANGE_APIS } from '../exchanges';
+import { controlEvent, toRawLevels, type ExchangeAdapter, type FeedEvent, type Subscription } from './types';
+
+// Partial depth streams cap at 20 levels; full depth uses the diff stream plus a REST snapshot
+export const BINANCE_FULL_DEPTH = 1000;
+export const BINANCE_DEPTHS = [5, 10, 20, BINANCE_FULL_DEPTH];
+
+interface BinanceMessage {
+  id?: number;
+  result?: unknown;
+  error?: { msg?: string };
+  stream?: string;
+  data?: {
+    e?: 'depthUpdate';
+    s?: string;
+    U?: number;
+    u?: number;
+    b?: string[][];
+    a?: string[][];
+    lastUpdateId?: number;
+    bids?: string[][];
+    asks?: string[][];
+  };
+}
+
+const streamName = ({ symbol, depth }: Subscription) => depth === BINANCE_FULL_DEPTH
+  ? `${symbol.toLowerCase()}@depth@100ms`
+  : `${symbol.toLowerCase()}@depth${depth}@100ms`;
+
+const SUBSCRIBE_ID = 1;
+const UNSUBSCRIBE_ID = 2;
+
+export const binanceAdapter: ExchangeAdapter = {
+  id: 'binance',
+  name: 'Binance US',
+  depths: BINANCE_DEPTHS,
+  restSnapshotLimit: BINANCE_FULL_DEPTH,
+  // The server pings; browsers answer protocol-level pings automatically
+
+  buildUrl: () => EXCHANGE_APIS.binance.ws,
+
+  subscribe: (subscription) => ({
+    method: 'SUBSCRIBE',
+    params: [streamName(subscription)],
+    id: SUBSCRIBE_ID
+  }),
+
+  unsubscribe: (subscription) => ({
+    method: 'UNSUBSCRIBE',
+    params: [streamName(subscription)],
+    id: UNSUBSCRIBE_ID
+  }),
+
+  channelFor: streamName,
+
+  decode: (message: unknown): FeedEvent => {
+    const parsed = message as BinanceMessage;
+    if (parsed.error) return controlEvent('error', parsed.error.msg);
+    if (parsed.id === SUBSCRIBE_ID) return controlEvent('subscribed');
+    if (parsed.id === UNSUBSCRIBE_ID) return controlEvent('unsubscribed');
+
+    const payload = parsed.data;
+    if (!parsed.stream || !payload) return controlEvent('unknown');
+
+    const instrument = payload.s || parsed.stream.split('@')[0].toUpperCase();
+    if (payload.e === 'depthUpdate') {
+      return {
+        kind: 'delta',
+        channel: parsed.stream,
+        instrument,
+        bids: toRawLevels(payload.b),
+        asks: toRawLevels(payload.a),
+        firstSequence: payload.U ?? null,
+        sequence: payload.u ?? null,
+        prevSequence: null
+      };
+    }
+
+    if (!payload.bids || !payload.asks) return controlEvent('unknown');
+    return {
+      kind: 'snapshot',
+      channel: parsed.stream,
+      instrument,
+      bids: toRawLevels(payload.bids),
+      asks: toRawLevels(payload.asks),
+      sequence: payload.lastUpdateId ?? null
+    };
+  },
+
+  // Documented sync rule: drop events the snapshot covers, then each event must start at last + 1
+  checkSequence: (lastSequence, event) => {
+    if (Number(event.sequence) <= lastSequence) return { action: 'skip' };
+    if (Number(event.firstSequence) > lastSequence + 1) {
+      return { action: 'resync', reason: `Binance depth updates missing after ${lastSequence}` };
+    }
+    return { action: 'apply' };
+  }
+};
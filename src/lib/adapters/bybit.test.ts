@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { bybitAdapter } from './bybit';
+import { createEngineHarness } from './__fixtures__/engineHarness';
+import fixtures from './__fixtures__/bybit.json';
+
+describe('bybitAdapter', () => {
+  it('decodes a snapshot on the depth-specific topic', () => {
+    expect(bybitAdapter.decode(fixtures.subscribed)).toMatchObject({ kind: 'control', control: 'subscribed' });
+    expect(bybitAdapter.decode(fixtures.snapshot)).toMatchObject({
+      kind: 'snapshot',
+      channel: bybitAdapter.channelFor({ symbol: 'BTCUSDT', depth: 50 }),
+      instrument: 'BTCUSDT',
+      sequence: 4208135
+    });
+  });
+
+  it('applies a delta that follows the last update id', () => {
+    const harness = createEngineHarness(bybitAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.delta);
+
+    expect(harness.resyncs).toEqual([]);
+    expect(harness.latest()).toEqual({
+      bids: [[67231.5, 0.812], [67231.2, 0.64], [67231, 1.35]],
+      asks: [[67231.6, 0.157], [67232, 0.09], [67232.8, 2.118]]
+    });
+  });
+
+  it('resyncs when update ids skip ahead', () => {
+    const harness = createEngineHarness(bybitAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.delta);
+    harness.feed(fixtures.gapDelta);
+
+    expect(harness.resyncs).toEqual(['Bybit updates missing between 4208136 and 4208139']);
+    expect(harness.books).toHaveLength(2);
+  });
+
+  it('resyncs when an update repeats', () => {
+    const harness = createEngineHarness(bybitAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.delta);
+    harness.feed(fixtures.delta);
+
+    expect(harness.resyncs).toEqual(['Bybit update 4208136 out of order (last 4208136)']);
+  });
+
+  it('treats update id 1 as a service restart that replaces the book', () => {
+    expect(bybitAdapter.decode(fixtures.restart)).toMatchObject({ kind: 'snapshot', sequence: 1 });
+
+    const harness = createEngineHarness(bybitAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.restart);
+
+    expect(harness.resyncs).toEqual([]);
+    expect(harness.latest()).toEqual({ bids: [[67230.9, 0.3]], asks: [[67231.1, 0.45]] });
+  });
+});
@@ -0,0 +1,72 @@
+// Bybit `orderbook.{depth}.{symbol}` topics: a snapshot followed by deltas chained by update id `u`
+import { EXCHANGE_APIS } from '../exchanges';
+import { controlEvent, toRawLevels, type ExchangeAdapter, type FeedEvent } from './types';
+
+export const BYBIT_DEPTHS = [1, 50, 200, 500];
+
+interface BybitMessage {
+  type?: 'connected' | 'snapshot' | 'delta';
+  op?: 'subscribe' | 'unsubscribe' | 'ping' | 'pong';
+  success?: boolean;
+  ret_msg?: string;
+  topic?: string;
+  data?: { s?: string; b?: string[][]; a?: string[][]; u?: number; seq?: number };
+}
+
+export const bybitAdapter: ExchangeAdapter = {
+  id: 'bybit',
+  name: 'Bybit',
+  depths: BYBIT_DEPTHS,
+  heartbeat: { intervalMs: 20000, message: JSON.stringify({ op: 'ping' }) },
+
+  buildUrl: () => EXCHANGE_APIS.bybit.ws,
+
+  subscribe: ({ symbol, depth }) => ({
+    op: 'subscribe',
+    args: [`orderbook.${depth}.${symbol}`]
+  }),
+
+  unsubscribe: ({ symbol, depth }) => ({
+    op: 'unsubscribe',
+    args: [`orderbook.${depth}.${symbol}`]
+  }),
+
+  channelFor: ({ symbol, depth }) => `orderbook.${depth}.${symbol}`,
+
+  decode: (message: unknown): FeedEvent => {
+    const parsed = message as BybitMessage;
+    if (parsed.type === 'connected') return controlEvent('connected');
+    if (parsed.op === 'pong' || parsed.ret_msg === 'pong') return controlEvent('pong');
+    if (parsed.success === false) return controlEvent('error', parsed.ret_msg);
+    if (parsed.op === 'subscribe') return controlEvent('subscribed');
+    if (parsed.op === 'unsubscribe') return controlEvent('unsubscribed');
+
+    const update = parsed.data;
+    if (!parsed.topic || !update || (parsed.type !== 'snapshot' && parsed.type !== 'delta')) {
+      return controlEvent('unknown');
+    }
+
+    const common = {
+      channel: parsed.topic,
+      instrument: update.s || parsed.topic.split('.').pop() || '',
+      bids: toRawLevels(update.b),
+      asks: toRawLevels(update.a),
+      sequence: update.u ?? null
+    };
+    // u = 1 means Bybit restarted the book service; the message replaces the whole book
+    return parsed.type === 'snapshot' || update.u === 1
+      ? { kind: 'snapshot', ...common }
+      : { kind: 'delta', ...common, firstSequence: update.u ?? null, prevSequence: null };
+  },
+
+  checkSequence: (lastSequence, event) => {
+    const updateId = Number(event.sequence);
+    if (updateId === lastSequence + 1) return { action: 'apply' };
+    return {
+      action: 'resync',
+      reason: updateId <= lastSequence
+        ? `Bybit update ${updateId} out of order (last ${lastSequence})`
+        : `Bybit updates missing between ${lastSequence} and ${updateId}`
+    };
+  }
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { deribitAdapter } from './deribit';
+import { createEngineHarness } from './__fixtures__/engineHarness';
+import fixtures from './__fixtures__/deribit.json';
+
+describe('deribitAdapter', () => {
+  it('decodes action triples into raw levels, deletes as zero size', () => {
+    expect(deribitAdapter.decode(fixtures.subscribed)).toMatchObject({ kind: 'control', control: 'subscribed' });
+    expect(deribitAdapter.decode(fixtures.change)).toMatchObject({
+      kind: 'delta',
+      channel: deribitAdapter.channelFor({ symbol: 'BTC-PERPETUAL', depth: 0 }),
+      instrument: 'BTC-PERPETUAL',
+      bids: [['67228.5', '170250'], ['67228', '0']],
+      sequence: 71549930487,
+      prevSequence: 71549930411
+    });
+  });
+
+  it('applies a change that chains onto the last change id', () => {
+    const harness = createEngineHarness(deribitAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.change);
+
+    expect(harness.resyncs).toEqual([]);
+    expect(harness.latest()).toEqual({
+      bids: [[67228.5, 170250], [67227.5, 61320]],
+      asks: [[67228.5, 5000], [67229, 97540], [67229.5, 20], [67230, 144870]]
+    });
+  });
+
+  it('resyncs when the change chain is broken', () => {
+    const harness = createEngineHarness(deribitAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.change);
+    harness.feed(fixtures.brokenChange);
+
+    expect(harness.resyncs).toEqual(['Deribit change chain broken (expected 71549930487, got 71549930530)']);
+    expect(harness.books).toHaveLength(2);
+  });
+});
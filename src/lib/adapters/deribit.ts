@@ -0,0 +1,96 @@
+// Deribit `book.{instrument}.100ms`: a snapshot followed by changes chained by change_id/prev_change_id
+import { EXCHANGE_APIS } from '../exchanges';
+import type { RawLevel } from '../orderBook';
+import { controlEvent, type ExchangeAdapter, type FeedEvent } from './types';
+
+// Book entries are [action, price, amount]; plain [price, amount] pairs count as new levels
+type DeribitLevel = ['new' | 'change' | 'delete', number, number] | [number, number];
+
+interface DeribitMessage {
+  type?: 'connected';
+  jsonrpc?: string;
+  id?: number;
+  method?: string;
+  result?: unknown;
+  error?: { message?: string };
+  params?: {
+    channel?: string;
+    data?: {
+      type?: 'snapshot' | 'change';
+      instrument_name?: string;
+      change_id?: number;
+      prev_change_id?: number;
+      bids?: DeribitLevel[];
+      asks?: DeribitLevel[];
+    };
+  };
+}
+
+const toRawLevel = (level: DeribitLevel): RawLevel => {
+  if (level.length === 2) {
+    return [String(level[0]), String(level[1])];
+  }
+  const [action, price, amount] = level;
+  return [String(price), action === 'delete' ? '0' : String(amount)];
+};
+
+// JSON-RPC request ids so responses can be told apart
+const SUBSCRIBE_ID = 1;
+const UNSUBSCRIBE_ID = 2;
+const HEARTBEAT_ID = 3;
+
+export const deribitAdapter: ExchangeAdapter = {
+  id: 'deribit',
+  name: 'Deribit',
+  heartbeat: {
+    intervalMs: 25000,
+    message: JSON.stringify({ jsonrpc: '2.0', id: HEARTBEAT_ID, method: 'public/test', params: {} })
+  },
+
+  buildUrl: () => EXCHANGE_APIS.deribit.ws,
+
+  subscribe: ({ symbol }) => ({
+    jsonrpc: '2.0',
+    id: SUBSCRIBE_ID,
+    method: 'public/subscribe',
+    params: { channels: [`book.${symbol}.100ms`] }
+  }),
+
+  unsubscribe: ({ symbol }) => ({
+    jsonrpc: '2.0',
+    id: UNSUBSCRIBE_ID,
+    method: 'public/unsubscribe',
+    params: { channels: [`book.${symbol}.100ms`] }
+  }),
+
+  channelFor: ({ symbol }) => `book.${symbol}.100ms`,
+
+  decode: (message: unknown): FeedEvent => {
+    const parsed = message as DeribitMessage;
+    if (parsed.type === 'connected') return controlEvent('connected');
+    if (parsed.error) return controlEvent('error', parsed.error.message);
+    if (parsed.id === SUBSCRIBE_ID) return controlEvent('subscribed');
+    if (parsed.id === UNSUBSCRIBE_ID) return controlEvent('unsubscribed');
+    if (parsed.id === HEARTBEAT_ID) return controlEvent('pong');
+
+    const update = parsed.params?.data;
+    if (parsed.method !== 'subscription' || !parsed.params?.channel || !update?.bids || !update.asks) {
+      return controlEvent('unknown');
+    }
+
+    const common = {
+      channel: parsed.params.channel,
+      instrument: update.instrument_name || '',
+      bids: update.bids.map(toRawLevel),
+      asks: update.asks.map(toRawLevel),
+      sequence: update.change_id ?? null
+    };
+    return update.type === 'change'
+      ? { kind: 'delta', ...common, firstSequence: null, prevSequence: update.prev_change_id ?? null }
+      : { kind: 'snapshot', ...common };
+  },
+
+  checkSequence: (lastSequence, event) => event.prevSequence === lastSequence
+    ? { action: 'apply' }
+    : { action: 'resync', reason: `Deribit change chain broken (expected ${lastSequence}, got ${event.prevSequence})` }
+};
@@ -0,0 +1,19 @@
+// Registry of exchange adapters; adding a venue means adding its module here
+import type { ExchangeAdapter } from './types';
+import { okxAdapter } from './okx';
+import { bybitAdapter } from './bybit';
+import { deribitAdapter } from './deribit';
+import { binanceAdapter } from './binance';
+
+export const EXCHANGE_ADAPTERS: { [venue: string]: ExchangeAdapter } = {
+  okx: okxAdapter,
+  bybit: bybitAdapter,
+  deribit: deribitAdapter,
+  binance: binanceAdapter
+};
+
+export function getExchangeAdapter(venue: string): ExchangeAdapter | null {
+  return EXCHANGE_ADAPTERS[venue] || null;
+}
+
+export * from './types';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { okxAdapter } from './okx';
+import { createEngineHarness } from './__fixtures__/engineHarness';
+import fixtures from './__fixtures__/okx.json';
+
+describe('okxAdapter', () => {
+  it('decodes subscription acks and pongs as control events', () => {
+    expect(okxAdapter.decode(fixtures.subscribed)).toEqual({ kind: 'control', control: 'subscribed', detail: 'BTC-USDT' });
+    expect(okxAdapter.decode('pong')).toEqual({ kind: 'control', control: 'pong', detail: undefined });
+  });
+
+  it('decodes a snapshot on the subscribed channel with its sequence and checksum', () => {
+    const event = okxAdapter.decode(fixtures.snapshot);
+    expect(event).toMatchObject({
+      kind: 'snapshot',
+      channel: okxAdapter.channelFor({ symbol: 'BTC-USDT', depth: 0 }),
+      instrument: 'BTC-USDT',
+      sequence: 11963475110,
+      checksum: fixtures.snapshot.data[0].checksum
+    });
+    if (event.kind !== 'snapshot') return;
+    expect(event.bids[0]).toEqual(['67234.5', '0.41529']);
+  });
+
+  it('applies a snapshot and an update whose checksums match', () => {
+    const harness = createEngineHarness(okxAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.update);
+
+    expect(harness.resyncs).toEqual([]);
+    expect(harness.books).toHaveLength(2);
+    expect(harness.latest()?.bids.slice(0, 3)).toEqual([[67234.5, 0.30129], [67234.4, 0.0015], [67233.8, 1.2]]);
+    expect(harness.latest()?.asks.slice(0, 2)).toEqual([[67234.55, 0.125], [67234.6, 0.68021]]);
+  });
+
+  it('drops the book and resyncs when an update fails its checksum', () => {
+    const harness = createEngineHarness(okxAdapter);
+    harness.feed(fixtures.snapshot);
+    harness.feed(fixtures.update);
+    harness.feed(fixtures.corruptUpdate);
+
+    expect(harness.resyncs).toEqual(['OKX checksum mismatch']);
+    expect(harness.books).toHaveLength(2);
+
+    // Later updates wait for the fresh snapshot instead of landing on a dropped book
+    harness.feed(fixtures.update);
+    expect(harness.books).toHaveLength(2);
+    harness.feed(fixtures.snapshot);
+    expect(harness.books).toHaveLength(3);
+  });
+});
@@ -0,0 +1,79 @@
+// OKX `books` channel: one snapshot followed by incremental updates, each carrying a CRC32 checksum
+import { EXCHANGE_APIS } from '../exchanges';
+import { crc32 } from '../checksum';
+import type { LocalOrderBook } from '../orderBook';
+import { controlEvent, toRawLevels, type ExchangeAdapter, type FeedEvent } from './types';
+
+interface OkxMessage {
+  type?: string; // proxy control messages
+  event?: 'subscribe' | 'unsubscribe' | 'error';
+  msg?: string;
+  arg?: { channel?: string; instId?: string };
+  action?: 'snapshot' | 'update';
+  data?: Array<{
+    bids?: string[][];
+    asks?: string[][];
+    checksum?: number;
+    seqId?: number;
+    prevSeqId?: number;
+  }>;
+}
+
+// CRC32 over the top 25 levels, interleaved bid/ask as "price:size"
+export const okxChecksum = (book: LocalOrderBook): number => {
+  const bids = book.getLevels('bids', 25);
+  const asks = book.getLevels('asks', 25);
+  const parts: string[] = [];
+  for (let i = 0; i < 25; i++) {
+    if (bids[i]) parts.push(`${bids[i][0]}:${bids[i][1]}`);
+    if (asks[i]) parts.push(`${asks[i][0]}:${asks[i][1]}`);
+  }
+  return crc32(parts.join(':'));
+};
+
+export const okxAdapter: ExchangeAdapter = {
+  id: 'okx',
+  name: 'OKX',
+  heartbeat: { intervalMs: 25000, message: 'ping' },
+
+  buildUrl: () => EXCHANGE_APIS.okx.ws,
+
+  subscribe: ({ symbol }) => ({
+    op: 'subscribe',
+    args: [{ channel: 'books', instId: symbol }]
+  }),
+
+  unsubscribe: ({ symbol }) => ({
+    op: 'unsubscribe',
+    args: [{ channel: 'books', instId: symbol }]
+  }),
+
+  channelFor: ({ symbol }) => `books:${symbol}`,
+
+  decode: (message: unknown): FeedEvent => {
+    if (message === 'pong') return controlEvent('pong');
+
+    const parsed = message as OkxMessage;
+    if (parsed.type === 'connected') return controlEvent('connected');
+    if (parsed.event === 'subscribe') return controlEvent('subscribed', parsed.arg?.instId);
+    if (parsed.event === 'unsubscribe') return controlEvent('unsubscribed', parsed.arg?.instId);
+    if (parsed.event === 'error') return controlEvent('error', parsed.msg);
+
+    const update = parsed.data?.[0];
+    if (!parsed.action || !update || !parsed.arg?.instId) return controlEvent('unknown');
+
+    const common = {
+      channel: `${parsed.arg.channel}:${parsed.arg.instId}`,
+      instrument: parsed.arg.instId,
+      bids: toRawLevels(update.bids),
+      asks: toRawLevels(update.asks),
+      sequence: update.seqId ?? null,
+      checksum: update.checksum
+    };
+    return parsed.action === 'snapshot'
+      ? { kind: 'snapshot', ...common }
+      : { kind: 'delta', ...common, firstSequence: null, prevSequence: update.prevSeqId ?? null };
+  },
+
+  verifyChecksum: (book, event) => event.checksum === undefined || okxChecksum(book) === event.checksum
+};
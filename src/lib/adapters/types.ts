@@ -0,0 +1,78 @@
+// Exchange adapter contract: everything venue-specific about an order book feed
+import type { LocalOrderBook, RawLevel } from '../orderBook';
+
+export interface OrderbookData {
+  bids: Array<[number, number]>;
+  asks: Array<[number, number]>;
+}
+
+// What the manager is currently streaming, in venue terms
+export interface Subscription {
+  symbol: string; // venue-specific symbol (see SYMBOL_MAPPINGS)
+  depth: number; // selected depth for venues with a choice, 0 otherwise
+}
+
+export type ControlKind = 'connected' | 'subscribed' | 'unsubscribed' | 'pong' | 'error' | 'unknown';
+
+export interface ControlEvent {
+  kind: 'control';
+  control: ControlKind;
+  detail?: string;
+}
+
+export interface SnapshotEvent {
+  kind: 'snapshot';
+  channel: string; // compared against channelFor() to drop messages from an old subscription
+  instrument: string;
+  bids: RawLevel[];
+  asks: RawLevel[];
+  sequence: number | null;
+  checksum?: number;
+}
+
+export interface DeltaEvent {
+  kind: 'delta';
+  channel: string;
+  instrument: string;
+  bids: RawLevel[];
+  asks: RawLevel[];
+  firstSequence: number | null; // first update id covered by this event (Binance U)
+  sequence: number | null; // last update id covered by this event
+  prevSequence: number | null; // update id this event builds on (Deribit prev_change_id)
+  checksum?: number;
+}
+
+export type BookEvent = SnapshotEvent | DeltaEvent;
+export type FeedEvent = ControlEvent | BookEvent;
+
+export type SequenceCheck =
+  | { action: 'apply' }
+  | { action: 'skip' } // already contained in the book (e.g. covered by a REST snapshot)
+  | { action: 'resync'; reason: string };
+
+export interface ExchangeAdapter {
+  id: string;
+  name: string;
+  depths?: number[]; // selectable subscription depths, if the venue offers a choice
+  // Deltas that arrive before any snapshot are buffered and synced from a REST snapshot of this size
+  restSnapshotLimit?: number;
+  heartbeat?: { intervalMs: number; message: string };
+
+  buildUrl(): string;
+  subscribe(subscription: Subscription): Record<string, unknown>;
+  unsubscribe(subscription: Subscription): Record<string, unknown>;
+  channelFor(subscription: Subscription): string;
+  decode(message: unknown): FeedEvent;
+  // Validate a delta against the sequence of the last applied event
+  checkSequence?(lastSequence: number, event: DeltaEvent): SequenceCheck;
+  verifyChecksum?(book: LocalOrderBook, event: BookEvent): boolean;
+}
+
+export const toRawLevels = (levels: Array<Array<string | number>> | undefined): RawLevel[] =>
+  (levels || []).map(([price, size]) => [String(price), String(size)]);
+
+export const controlEvent = (control: ControlKind, detail?: string): ControlEvent => ({
+  kind: 'control',
+  control,
+  detail
+});
@@ -0,0 +1,158 @@
+// Venue-agnostic order book maintenance driven by an exchange adapter's sequencing rules
+import { LocalOrderBook } from './orderBook';
+import type { OrderbookSnapshot } from './restApi';
+import type { BookEvent, DeltaEvent, ExchangeAdapter, OrderbookData } from './adapters';
+
+export interface BookEngineCallbacks {
+  onBook: (data: OrderbookData) => void;
+  onResync: (reason: string) => void; // the book was dropped; the caller resubscribes for a fresh snapshot
+  fetchSnapshot: (limit: number) => Promise<OrderbookSnapshot | null>;
+}
+
+// Levels per side the engine can publish; venues that stream fewer publish what they have
+export const BOOK_DEPTHS = [15, 50, 200, 1000];
+export const DEFAULT_BOOK_DEPTH = BOOK_DEPTHS[0];
+
+// Deltas held back while a REST snapshot request is in flight
+interface RestSync {
+  pending: DeltaEvent[];
+}
+
+export class BookEngine {
+  private books = new Map<string, LocalOrderBook>();
+  private restSyncs = new Map<string, RestSync>();
+  private adapter: ExchangeAdapter;
+  private callbacks: BookEngineCallbacks;
+  private depth: number;
+
+  constructor(adapter: ExchangeAdapter, callbacks: BookEngineCallbacks, depth: number = DEFAULT_BOOK_DEPTH) {
+    this.adapter = adapter;
+    this.callbacks = callbacks;
+    this.depth = depth;
+  }
+
+  handle(event: BookEvent): void {
+    const book = this.getBook(event.instrument);
+
+    if (event.kind === 'snapshot') {
+      this.restSyncs.delete(event.instrument);
+      book.applySnapshot(event.bids, event.asks);
+      book.sequence = event.sequence;
+      if (!this.verify(book, event)) return;
+      this.publish(book);
+      return;
+    }
+
+    if (!book.synced) {
+      // Stream-snapshot venues resend one after (re)subscribing; REST-synced venues fetch it
+      if (this.adapter.restSnapshotLimit) {
+        this.bufferForRestSync(event);
+      }
+      return;
+    }
+
+    if (this.applyDelta(book, event)) {
+      this.publish(book);
+    }
+  }
+
+  // Publish more or fewer levels, starting with the books already held
+  setDepth(depth: number): void {
+    if (depth === this.depth) return;
+
+    this.depth = depth;
+    this.books.forEach(book => {
+      if (book.synced) this.publish(book);
+    });
+  }
+
+  // Forget an instrument, abandoning any in-flight snapshot request for it
+  drop(instrument: string): void {
+    this.books.get(instrument)?.clear();
+    this.books.delete(instrument);
+    this.restSyncs.delete(instrument);
+  }
+
+  reset(): void {
+    this.books.forEach(book => book.clear());
+    this.books.clear();
+    this.restSyncs.clear();
+  }
+
+  private getBook(instrument: string): LocalOrderBook {
+    let book = this.books.get(instrument);
+    if (!book) {
+      book = new LocalOrderBook();
+      this.books.set(instrument, book);
+    }
+    return book;
+  }
+
+  private applyDelta(book: LocalOrderBook, event: DeltaEvent): boolean {
+    if (this.adapter.checkSequence && book.sequence !== null) {
+      const check = this.adapter.checkSequence(book.sequence, event);
+      if (check.action === 'skip') return true;
+      if (check.action === 'resync') {
+        this.resync(event.instrument, check.reason);
+        return false;
+      }
+    }
+
+    book.applyUpdate(event.bids, event.asks);
+    book.sequence = event.sequence;
+    return this.verify(book, event);
+  }
+
+  private verify(book: LocalOrderBook, event: BookEvent): boolean {
+    if (this.adapter.verifyChecksum && !this.adapter.verifyChecksum(book, event)) {
+      this.resync(event.instrument, `${this.adapter.name} checksum mismatch`);
+      return false;
+    }
+    return true;
+  }
+
+  private resync(instrument: string, reason: string): void {
+    this.drop(instrument);
+    this.callbacks.onResync(reason);
+  }
+
+  private bufferForRestSync(event: DeltaEvent): void {
+    const existing = this.restSyncs.get(event.instrument);
+    if (existing) {
+      existing.pending.push(event);
+      return;
+    }
+
+    const sync: RestSync = { pending: [event] };
+    this.restSyncs.set(event.instrument, sync);
+    this.callbacks.fetchSnapshot(this.adapter.restSnapshotLimit as number)
+      .then(snapshot => this.completeRestSync(event.instrument, sync, snapshot));
+  }
+
+  private completeRestSync(instrument: string, sync: RestSync, snapshot: OrderbookSnapshot | null): void {
+    // Superseded by a resync, symbol change or stream snapshot while the request was in flight
+    if (this.restSyncs.get(instrument) !== sync) return;
+
+    if (!snapshot || snapshot.updateId === null) {
+      // Retry with a later event after a pause rather than hammering the REST endpoint
+      setTimeout(() => {
+        if (this.restSyncs.get(instrument) === sync) this.restSyncs.delete(instrument);
+      }, 1000);
+      return;
+    }
+
+    this.restSyncs.delete(instrument);
+    const book = this.getBook(instrument);
+    book.applySnapshot(snapshot.bids, snapshot.asks);
+    book.sequence = snapshot.updateId;
+
+    for (const event of sync.pending) {
+      if (!this.applyDelta(book, event)) return;
+    }
+    this.publish(book);
+  }
+
+  private publish(book: LocalOrderBook): void {
+    this.callbacks.onBook(book.toOrderbookData(this.depth));
+  }
+}
@@ -0,0 +1,162 @@
+// UI-thread handle on a feed running in a dedicated worker, with WebSocketManager's callbacks
+import { SYMBOL_MAPPINGS } from './exchanges';
+import { DEFAULT_BOOK_DEPTH } from './bookEngine';
+import { REPLAY_SCHEME, resolveReplayUrl } from './marketDataRecorder';
+import { FeedHost, decodeLevels, type FeedCommand, type FeedMessage } from './feedHost';
+import type { WebSocketManagerOptions } from './webSocketManager';
+import type { OrderbookData } from './adapters';
+
+interface FeedPort {
+  send: (command: FeedCommand) => void;
+  close: () => void;
+}
+
+interface RecordingReply {
+  recording: boolean;
+  ndjson: string | null;
+}
+
+export class BookFeed {
+  private port: FeedPort | null = null;
+  private exchange: string;
+  private symbol: string;
+  private options: WebSocketManagerOptions;
+  private onMessage: (data: OrderbookData) => void;
+  private onConnectionChange: (connected: boolean, error?: string) => void;
+  private generation = 0;
+  private connected = false;
+  private recording = false;
+  private nextRequestId = 1;
+  private pendingReplies = new Map<number, (reply: RecordingReply) => void>();
+
+  constructor(
+    exchange: string,
+    symbol: string,
+    onMessage: (data: OrderbookData) => void,
+    onConnectionChange: (connected: boolean, error?: string) => void,
+    options: WebSocketManagerOptions = {}
+  ) {
+    this.exchange = exchange;
+    this.symbol = symbol;
+    this.onMessage = onMessage;
+    this.onConnectionChange = onConnectionChange;
+    this.options = options;
+  }
+
+  connect(): void {
+    this.port?.close();
+    this.port = this.openPort();
+
+    // Replay sessions are registered on this thread; the recording travels with the command
+    const { url, depth, demoSeed, demoVolatilityScale } = this.options;
+    const replay = url?.startsWith(REPLAY_SCHEME) ? resolveReplayUrl(url) : null;
+
+    this.port.send({
+      type: 'connect',
+      exchange: this.exchange,
+      symbol: this.symbol,
+      mapping: SYMBOL_MAPPINGS[this.symbol],
+      options: { url, depth, demoSeed, demoVolatilityScale },
+      replay: replay ?? undefined,
+      generation: ++this.generation
+    });
+  }
+
+  setSymbol(symbol: string): void {
+    if (symbol === this.symbol) return;
+
+    this.symbol = symbol;
+    this.port?.send({ type: 'setSymbol', symbol, mapping: SYMBOL_MAPPINGS[symbol], generation: ++this.generation });
+  }
+
+  setDepth(levels: number): void {
+    if (levels === (this.options.depth ?? DEFAULT_BOOK_DEPTH)) return;
+
+    this.options = { ...this.options, depth: levels };
+    this.port?.send({ type: 'setDepth', depth: levels, generation: ++this.generation });
+  }
+
+  // Resolves to whether recording started; demo feeds and replays cannot be recorded
+  startRecording(): Promise<boolean> {
+    return this.request('startRecording').then(reply => reply.recording);
+  }
+
+  // Resolves to the captured session as NDJSON
+  stopRecording(): Promise<string | null> {
+    return this.request('stopRecording').then(reply => reply.ndjson);
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  setReplaySpeed(speed: number): void {
+    this.port?.send({ type: 'setReplaySpeed', speed });
+  }
+
+  stepReplay(): void {
+    this.port?.send({ type: 'stepReplay' });
+  }
+
+  disconnect(): void {
+    this.port?.close();
+    this.port = null;
+    this.connected = false;
+    this.recording = false;
+    this.pendingReplies.forEach(resolve => resolve({ recording: false, ndjson: null }));
+    this.pendingReplies.clear();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private request(type: 'startRecording' | 'stopRecording'): Promise<RecordingReply> {
+    const port = this.port;
+    if (!port) return Promise.resolve({ recording: false, ndjson: null });
+
+    const id = this.nextRequestId++;
+    return new Promise(resolve => {
+      this.pendingReplies.set(id, resolve);
+      port.send({ type, id });
+    });
+  }
+
+  private receive(message: FeedMessage): void {
+    if (message.type === 'book') {
+      // Posted before the latest symbol or depth change reached the worker
+      if (message.generation !== this.generation) return;
+      this.onMessage({ bids: decodeLevels(message.bids), asks: decodeLevels(message.asks) });
+    } else if (message.type === 'connection') {
+      this.connected = message.connected;
+      this.onConnectionChange(message.connected, message.error);
+    } else if (message.type === 'resync') {
+      this.options.onResync?.(message.reason);
+    } else {
+      this.recording = message.recording;
+      this.pendingReplies.get(message.id)?.(message);
+      this.pendingReplies.delete(message.id);
+    }
+  }
+
+  // Falls back to running the feed on this thread where workers are unavailable
+  private openPort(): FeedPort {
+    try {
+      const worker = new Worker(new URL('./feedWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<FeedMessage>) => this.receive(event.data);
+      worker.onerror = (event) => console.error('Book feed worker failed:', event.message);
+      return {
+        send: command => worker.postMessage(command),
+        // Terminating the worker closes its socket
+        close: () => worker.terminate()
+      };
+    } catch (error) {
+      console.warn('Web Workers unavailable, running the book feed on the main thread:', error);
+      const host = new FeedHost(message => this.receive(message));
+      return {
+        send: command => host.handle(command),
+        close: () => host.handle({ type: 'disconnect' })
+      };
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// CRC32 (IEEE 802.3 polynomial) used by exchange order book checksums
+const CRC32_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+// Returns the checksum as a signed 32-bit integer, matching what OKX sends
+export function crc32(input: string): number {
+  let crc = -1;
+  for (let i = 0; i < input.length; i++) {
+    crc = CRC32_TABLE[(crc ^ input.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) | 0;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { toBaseUnitBook, toBaseUnitBooks } from './consolidatedBook';
+import { cumulativeDepth, depthAt } from './depthChart';
+import { getInstrument } from './instruments';
+import { deribitAdapter } from './adapters/deribit';
+import { createEngineHarness } from './adapters/__fixtures__/engineHarness';
+import fixtures from './adapters/__fixtures__/deribit.json';
+
+// The book a single-venue view receives from the feed, as levels
+const deribitBook = () => {
+  const harness = createEngineHarness(deribitAdapter);
+  harness.feed(fixtures.snapshot);
+  const data = harness.latest()!;
+  return {
+    bids: data.bids.map(([price, quantity]) => ({ price, quantity })),
+    asks: data.asks.map(([price, quantity]) => ({ price, quantity }))
+  };
+};
+
+describe('toBaseUnitBook', () => {
+  it('sizes a Deribit BTC-PERPETUAL level pick in BTC, not USD', () => {
+    const book = toBaseUnitBook(deribitBook(), getInstrument('BTC-USD', 'deribit'));
+    // Buying up to the third ask sweeps 97540 + 20 + 144870 USD of contracts
+    const sweep = depthAt(cumulativeDepth(book.asks), 'asks', 67230);
+
+    expect(sweep.size).toBeCloseTo(97540 / 67229 + 20 / 67229.5 + 144870 / 67230, 8);
+    expect(sweep.size).toBeLessThan(4);
+    expect(sweep.notional).toBeCloseTo(97540 + 20 + 144870, 6);
+  });
+
+  it('leaves linear books untouched', () => {
+    const book = deribitBook();
+    expect(toBaseUnitBook(book, getInstrument('BTC-USD', 'binance'))).toBe(book);
+  });
+
+  it('converts only the inverse venues of a multi-venue set', () => {
+    const book = deribitBook();
+    const books = toBaseUnitBooks({ deribit: book, binance: book }, 'BTC-USD');
+
+    expect(books.binance).toBe(book);
+    expect(books.deribit.bids[0].quantity).toBeCloseTo(184250 / 67228.5, 8);
+  });
+});
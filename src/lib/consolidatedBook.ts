@@ -0,0 +1,132 @@
+// Merge per-venue books for one base symbol into a single book with venue attribution
+import { getSpreadInfo, type OrderbookLevel } from './marketCalculations';
+import { getInstrument, type Instrument } from './instruments';
+
+export interface VenueBook {
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+}
+
+export interface VenueQuantity {
+  venue: string;
+  quantity: number;
+}
+
+export interface ConsolidatedLevel extends OrderbookLevel {
+  venues: VenueQuantity[]; // largest contribution first
+}
+
+export interface ConsolidatedBook {
+  bids: ConsolidatedLevel[];
+  asks: ConsolidatedLevel[];
+}
+
+export interface BestQuote {
+  price: number;
+  quantity: number;
+  venues: string[]; // every venue quoting the best price
+}
+
+export interface Nbbo {
+  bid: BestQuote | null;
+  ask: BestQuote | null;
+  spread: number;
+  spreadPercentage: number;
+  midPrice: number;
+  crossed: boolean; // best bid on one venue at or above best ask on another
+}
+
+export interface VenueDepthShare {
+  venue: string;
+  bidQuantity: number;
+  askQuantity: number;
+  share: number; // fraction of total consolidated quantity, 0-1
+}
+
+// Inverse books stream size as a USD amount, not contracts; convert to base units so sizes match the simulator's
+export function toBaseUnitBook(book: VenueBook, instrument: Instrument): VenueBook {
+  if (!instrument.inverse) return book;
+
+  const toBase = (levels: OrderbookLevel[]) => levels.map(({ price, quantity }) => ({
+    price,
+    quantity: price > 0 ? quantity / price : 0
+  }));
+  return { bids: toBase(book.bids), asks: toBase(book.asks) };
+}
+
+// Inverse venues quote size in USD; convert to base units so venues can be summed
+export function toBaseUnitBooks(books: { [venue: string]: VenueBook }, symbol: string): { [venue: string]: VenueBook } {
+  return Object.fromEntries(Object.entries(books).map(([venue, book]) => [
+    venue,
+    toBaseUnitBook(book, getInstrument(symbol, venue))
+  ]));
+}
+
+function mergeSide(books: { [venue: string]: VenueBook }, side: 'bids' | 'asks', depth: number): ConsolidatedLevel[] {
+  const levels = new Map<number, ConsolidatedLevel>();
+
+  Object.entries(books).forEach(([venue, book]) => {
+    book[side].forEach(({ price, quantity }) => {
+      if (quantity <= 0) return;
+      const level = levels.get(price) || { price, quantity: 0, venues: [] };
+      level.quantity += quantity;
+      level.venues.push({ venue, quantity });
+      levels.set(price, level);
+    });
+  });
+
+  return Array.from(levels.values())
+    .sort((a, b) => side === 'bids' ? b.price - a.price : a.price - b.price)
+    .slice(0, depth)
+    .map(level => ({ ...level, venues: level.venues.sort((a, b) => b.quantity - a.quantity) }));
+}
+
+export function consolidateBooks(books: { [venue: string]: VenueBook }, symbol: string, depth: number = 15): ConsolidatedBook {
+  const baseBooks = toBaseUnitBooks(books, symbol);
+  return {
+    bids: mergeSide(baseBooks, 'bids', depth),
+    asks: mergeSide(baseBooks, 'asks', depth)
+  };
+}
+
+export function getNbbo(book: ConsolidatedBook): Nbbo {
+  const toQuote = (level?: ConsolidatedLevel): BestQuote | null => level
+    ? { price: level.price, quantity: level.quantity, venues: level.venues.map(v => v.venue) }
+    : null;
+  const { spread, spreadPercentage, midPrice } = getSpreadInfo(book);
+  const bid = toQuote(book.bids[0]);
+  const ask = toQuote(book.asks[0]);
+
+  return {
+    bid,
+    ask,
+    spread,
+    spreadPercentage,
+    midPrice,
+    crossed: bid !== null && ask !== null && bid.price >= ask.price
+  };
+}
+
+// Each venue's contribution to the displayed consolidated depth
+export function getVenueDepthShare(book: ConsolidatedBook): VenueDepthShare[] {
+  const totals = new Map<string, { bidQuantity: number; askQuantity: number }>();
+  const add = (levels: ConsolidatedLevel[], key: 'bidQuantity' | 'askQuantity') => {
+    levels.forEach(level => level.venues.forEach(({ venue, quantity }) => {
+      const total = totals.get(venue) || { bidQuantity: 0, askQuantity: 0 };
+      total[key] += quantity;
+      totals.set(venue, total);
+    }));
+  };
+  add(book.bids, 'bidQuantity');
+  add(book.asks, 'askQuantity');
+
+  const grandTotal = Array.from(totals.values()).reduce((sum, t) => sum + t.bidQuantity + t.askQuantity, 0);
+  return Array.from(totals.entries())
+    .map(([venue, { bidQuantity, askQuantity }]) => ({
+      venue,
+      bidQuantity,
+      askQuantity,
+      share: grandTotal > 0 ? (bidQuantity + askQuantity) / grandTotal : 0
+    }))
+    .sort((a, b) => b.share - a.share);
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DemoMarket, getDemoMarketConfig } from './demoMarket';
+import WebSocket from 'ws';
+import { WebSocketManager } from './webSocketManager';
+import type { OrderbookData } from './adapters';
+
+// Books from a market stepped at the feed's 250ms cadence
+const run = (symbol: string, seed: number, steps: number): OrderbookData[] => {
+  const market = new DemoMarket(symbol, seed);
+  return Array.from({ length: steps }, () => {
+    market.step(0.25);
+    return market.snapshot(20);
+  });
+};
+
+describe('DemoMarket', () => {
+  it('replays the same books for the same seed', () => {
+    expect(run('BTC-USD', 42, 50)).toEqual(run('BTC-USD', 42, 50));
+  });
+
+  it('diverges for a different seed', () => {
+    const a = run('BTC-USD', 42, 50);
+    const b = run('BTC-USD', 43, 50);
+    expect(a[0]).not.toEqual(b[0]);
+    expect(a[49]).not.toEqual(b[49]);
+  });
+
+  it('keeps each symbol around its own mid', () => {
+    const eth = new DemoMarket('ETH-USD', 42);
+    for (let i = 0; i < 240; i++) eth.step(0.25);
+
+    const { initialMid } = getDemoMarketConfig('ETH-USD');
+    expect(Math.abs(eth.midPrice / initialMid - 1)).toBeLessThan(0.05);
+
+    const { bids, asks } = eth.snapshot(1);
+    expect(bids[0][0]).toBeGreaterThan(initialMid * 0.95);
+    expect(asks[0][0]).toBeLessThan(initialMid * 1.05);
+  });
+
+  it('rests with bids below asks, one tick apart', () => {
+    for (const symbol of ['BTC-USD', 'ETH-USD', 'SOL-USD']) {
+      const { tickSize } = getDemoMarketConfig(symbol);
+      const { bids, asks } = new DemoMarket(symbol, 7).snapshot(15);
+
+      expect(bids).toHaveLength(15);
+      expect(asks).toHaveLength(15);
+      expect(bids[0][0]).toBeLessThan(asks[0][0]);
+      expect(asks[0][0] - bids[0][0]).toBeCloseTo(tickSize, 8);
+      bids.slice(1).forEach(([price], i) => expect(price).toBeLessThan(bids[i][0]));
+      asks.slice(1).forEach(([price], i) => expect(price).toBeGreaterThan(asks[i][0]));
+    }
+  });
+});
+
+describe('WebSocketManager demo feed', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps a market per symbol, so switching quotes around the new symbol\'s mid', () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', WebSocket); // Node 20 has no global WebSocket; the demo feed never opens one
+    const books: OrderbookData[] = [];
+    const manager = new WebSocketManager('demo', 'BTC-USD', book => books.push(book), () => {}, { demoSeed: 42 });
+    manager.connect();
+    vi.advanceTimersByTime(1000);
+    const btcBid = books[books.length - 1].bids[0][0];
+
+    manager.setSymbol('ETH-USD');
+    vi.advanceTimersByTime(1000);
+    const ethBid = books[books.length - 1].bids[0][0];
+
+    manager.setSymbol('BTC-USD');
+    vi.advanceTimersByTime(250);
+    manager.disconnect();
+
+    expect(Math.abs(ethBid / getDemoMarketConfig('ETH-USD').initialMid - 1)).toBeLessThan(0.01);
+    expect(Math.abs(btcBid / getDemoMarketConfig('BTC-USD').initialMid - 1)).toBeLessThan(0.01);
+    // BTC resumes its own walk rather than restarting or inheriting ETH's
+    expect(Math.abs(books[books.length - 1].bids[0][0] / btcBid - 1)).toBeLessThan(0.01);
+  });
+});
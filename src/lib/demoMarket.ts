@@ -0,0 +1,231 @@
+// Stochastic demo market: random-walk mid price with Poisson order arrivals and cancels per level
+import type { OrderbookData } from './adapters';
+
+export interface DemoMarketConfig {
+  initialMid: number;
+  tickSize: number; // price increment between levels
+  volatility: number; // standard deviation of log mid returns per second
+  levels: number; // levels maintained on each side
+  meanOrderSize: number; // mean size of an arriving order (exponentially distributed)
+  arrivalRate: number; // orders per second arriving at the touch
+  depthDecay: number; // arrival rate falls by exp(-depthDecay) per level away from the touch
+  depthFloor: number; // deep levels keep at least this share of the touch arrival rate
+  cancelRate: number; // cancels per second for each mean-sized order resting at a level
+}
+
+export const DEMO_MARKET_CONFIGS: { [symbol: string]: DemoMarketConfig } = {
+  'BTC-USD': {
+    initialMid: 65000,
+    tickSize: 0.5,
+    volatility: 0.0002,
+    levels: 50,
+    meanOrderSize: 0.25,
+    arrivalRate: 6,
+    depthDecay: 0.04,
+    depthFloor: 0.02,
+    cancelRate: 0.4
+  },
+  'ETH-USD': {
+    initialMid: 3500,
+    tickSize: 0.05,
+    volatility: 0.00025,
+    levels: 50,
+    meanOrderSize: 3,
+    arrivalRate: 6,
+    depthDecay: 0.04,
+    depthFloor: 0.02,
+    cancelRate: 0.4
+  },
+  'SOL-USD': {
+    initialMid: 150,
+    tickSize: 0.01,
+    volatility: 0.0004,
+    levels: 50,
+    meanOrderSize: 40,
+    arrivalRate: 5,
+    depthDecay: 0.05,
+    depthFloor: 0.02,
+    cancelRate: 0.45
+  }
+};
+
+// Unknown symbols get a generic mid-priced market
+const DEFAULT_CONFIG: DemoMarketConfig = {
+  initialMid: 100,
+  tickSize: 0.01,
+  volatility: 0.0003,
+  levels: 50,
+  meanOrderSize: 50,
+  arrivalRate: 5,
+  depthDecay: 0.05,
+  depthFloor: 0.02,
+  cancelRate: 0.4
+};
+
+export function getDemoMarketConfig(symbol: string): DemoMarketConfig {
+  return DEMO_MARKET_CONFIGS[symbol] || DEFAULT_CONFIG;
+}
+
+export type Rng = () => number;
+
+// mulberry32: small, fast and good enough for simulation; same seed, same market
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a hash so each symbol gets its own stream from a shared seed
+export function hashSeed(seed: number, key: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function normal(rng: Rng): number {
+  const u = 1 - rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+function poisson(rng: Rng, lambda: number): number {
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = rng();
+  while (product > limit) {
+    count++;
+    product *= rng();
+  }
+  return count;
+}
+
+function exponential(rng: Rng, mean: number): number {
+  return -Math.log(1 - rng()) * mean;
+}
+
+export class DemoMarket {
+  private config: DemoMarketConfig;
+  private rng: Rng;
+  private mid: number;
+  // Resting size keyed by integer tick (price / tickSize)
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+
+  constructor(symbol: string, seed: number, overrides: Partial<DemoMarketConfig> = {}) {
+    this.config = { ...getDemoMarketConfig(symbol), ...overrides };
+    this.rng = createRng(hashSeed(seed, symbol));
+    this.mid = this.config.initialMid;
+    this.seedBook();
+  }
+
+  get midPrice(): number {
+    return this.mid;
+  }
+
+  // Advance the market by dtSeconds of simulated time
+  step(dtSeconds: number): void {
+    const { volatility } = this.config;
+    this.mid *= Math.exp(volatility * Math.sqrt(dtSeconds) * normal(this.rng) - 0.5 * volatility * volatility * dtSeconds);
+
+    const bestBid = this.bestBidTick();
+    this.evolveSide(this.bids, bestBid, -1, dtSeconds);
+    this.evolveSide(this.asks, bestBid + 1, 1, dtSeconds);
+  }
+
+  // Widens the simulated window so deeper books have levels to show; it never narrows
+  setLevels(levels: number): void {
+    const previous = this.config.levels;
+    if (levels <= previous) return;
+
+    this.config.levels = levels;
+    const bestBid = this.bestBidTick();
+    for (let i = previous; i < levels; i++) {
+      this.bids.set(bestBid - i, this.steadyStateSize(i) * (0.5 + this.rng()));
+      this.asks.set(bestBid + 1 + i, this.steadyStateSize(i) * (0.5 + this.rng()));
+    }
+  }
+
+  snapshot(depth: number = 15): OrderbookData {
+    return {
+      bids: this.sideLevels(this.bids, -1, depth),
+      asks: this.sideLevels(this.asks, 1, depth)
+    };
+  }
+
+  // Start from the steady-state size at each level so the first frame already looks like a market
+  private seedBook(): void {
+    const bestBid = this.bestBidTick();
+    for (let i = 0; i < this.config.levels; i++) {
+      this.bids.set(bestBid - i, this.steadyStateSize(i) * (0.5 + this.rng()));
+      this.asks.set(bestBid + 1 + i, this.steadyStateSize(i) * (0.5 + this.rng()));
+    }
+  }
+
+  // Quotes straddle the mid, so the spread is at least one tick and widens when the touch empties
+  private bestBidTick(): number {
+    return Math.floor(this.mid / this.config.tickSize);
+  }
+
+  private steadyStateSize(level: number): number {
+    const { arrivalRate, cancelRate, meanOrderSize } = this.config;
+    return (arrivalRate * this.depthProfile(level) / cancelRate) * meanOrderSize;
+  }
+
+  // Share of the touch arrival rate reaching a level
+  private depthProfile(level: number): number {
+    return Math.max(Math.exp(-this.config.depthDecay * level), this.config.depthFloor);
+  }
+
+  // direction: -1 for bids (prices fall away from the touch), 1 for asks
+  private evolveSide(side: Map<number, number>, touch: number, direction: -1 | 1, dtSeconds: number): void {
+    const { levels, arrivalRate, cancelRate, meanOrderSize } = this.config;
+    const farthest = touch + direction * (levels - 1);
+
+    // Liquidity the mid has moved through is consumed; levels beyond the window are forgotten
+    for (const tick of Array.from(side.keys())) {
+      const inside = direction === -1 ? tick > touch : tick < touch;
+      const outside = direction === -1 ? tick < farthest : tick > farthest;
+      if (inside || outside) side.delete(tick);
+    }
+
+    for (let i = 0; i < levels; i++) {
+      const tick = touch + direction * i;
+      let size = side.get(tick) || 0;
+
+      // Cancels scale with resting size; arrivals and cancels are exponentially sized orders
+      const cancels = poisson(this.rng, cancelRate * (size / meanOrderSize) * dtSeconds);
+      for (let n = 0; n < cancels && size > 0; n++) {
+        size = Math.max(0, size - exponential(this.rng, meanOrderSize));
+      }
+      const arrivals = poisson(this.rng, arrivalRate * this.depthProfile(i) * dtSeconds);
+      for (let n = 0; n < arrivals; n++) {
+        size += exponential(this.rng, meanOrderSize);
+      }
+
+      if (size < meanOrderSize * 0.01) {
+        side.delete(tick);
+      } else {
+        side.set(tick, size);
+      }
+    }
+  }
+
+  private sideLevels(side: Map<number, number>, direction: -1 | 1, depth: number): Array<[number, number]> {
+    const { tickSize } = this.config;
+    const decimals = Math.max(0, -Math.floor(Math.log10(tickSize)) + 1);
+    return Array.from(side.entries())
+      .sort(([a], [b]) => (a - b) * direction)
+      .slice(0, depth)
+      .map(([tick, size]) => [
+        Number((tick * tickSize).toFixed(decimals)),
+        Math.round(size * 10000) / 10000
+      ]);
+  }
+}
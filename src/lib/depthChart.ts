@@ -0,0 +1,88 @@
+// Cumulative depth curves, zoom/pan view ranges and axis ticks for the depth chart
+import type { OrderbookLevel } from './marketCalculations';
+
+type Side = 'bids' | 'asks';
+
+export type DepthMode = 'base' | 'notional';
+
+// Cumulative totals from the touch through this level
+export interface DepthPoint {
+  price: number;
+  size: number;
+  notional: number;
+}
+
+// Zoom is relative to the whole book; offset shifts the view centre away from the mid price
+export interface DepthView {
+  zoom: number;
+  offset: number;
+}
+
+export const DEFAULT_DEPTH_VIEW: DepthView = { zoom: 1, offset: 0 };
+export const MAX_DEPTH_ZOOM = 500;
+
+export function cumulativeDepth(levels: OrderbookLevel[]): DepthPoint[] {
+  let size = 0;
+  let notional = 0;
+  return levels.map(level => {
+    size += level.quantity;
+    notional += level.price * level.quantity;
+    return { price: level.price, size, notional };
+  });
+}
+
+// Everything resting at `price` or better on the side that holds it; points arrive best first
+export function depthAt(points: DepthPoint[], side: Side, price: number): DepthPoint {
+  let reached: DepthPoint = { price, size: 0, notional: 0 };
+  for (const point of points) {
+    if (side === 'bids' ? point.price < price : point.price > price) break;
+    reached = point;
+  }
+  return reached;
+}
+
+export const depthValue = (point: DepthPoint, mode: DepthMode) => mode === 'base' ? point.size : point.notional;
+
+// Distance from the mid to the furthest level, so the default view shows the whole book
+export function bookHalfRange(bids: OrderbookLevel[], asks: OrderbookLevel[], midPrice: number): number {
+  const lowest = bids.length ? bids[bids.length - 1].price : midPrice;
+  const highest = asks.length ? asks[asks.length - 1].price : midPrice;
+  return Math.max(midPrice - lowest, highest - midPrice);
+}
+
+export function viewRange(view: DepthView, midPrice: number, halfRange: number): { min: number; max: number } {
+  const half = halfRange / view.zoom;
+  const centre = midPrice + view.offset;
+  return { min: centre - half, max: centre + half };
+}
+
+// Panning stops once the view centre would leave the book
+export function clampView(view: DepthView, halfRange: number): DepthView {
+  const zoom = Math.min(MAX_DEPTH_ZOOM, Math.max(1, view.zoom));
+  const limit = halfRange * (1 - 1 / zoom);
+  return { zoom, offset: Math.min(limit, Math.max(-limit, view.offset)) };
+}
+
+// Round tick values on a 1/2/5 step, roughly `count` of them across the range
+export function niceTicks(min: number, max: number, count: number): { ticks: number[]; step: number } {
+  const span = max - min;
+  if (!(span > 0) || count < 1) return { ticks: [], step: 0 };
+
+  const raw = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const fraction = raw / magnitude;
+  const step = (fraction > 5 ? 10 : fraction > 2 ? 5 : fraction > 1 ? 2 : 1) * magnitude;
+
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max; tick += step) {
+    ticks.push(Number(tick.toFixed(12)));
+  }
+  return { ticks, step };
+}
+
+// Decimals needed to tell adjacent ticks apart
+export const tickDecimals = (step: number) => step > 0 ? Math.max(0, -Math.floor(Math.log10(step) + 1e-9)) : 0;
+
+const compactFormat = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+
+export const formatCompact = (value: number) => compactFormat.format(value);
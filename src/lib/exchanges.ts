@@ -1,8 +1,17 @@
+export interface FeeTier {
+  label: string;
+  value: string;
+  maker: number; // fraction of notional, negative for a rebate
+  taker: number;
+}
+
 export interface ExchangeApi {
   rest: string;
+  instruments: string; // instrument listing, read server-side by the symbol catalogue
   ws: string;
   name: string;
   features: string[];
+  feeTiers: FeeTier[]; // lowest volume tier first
 }
 
 export interface SymbolMapping {
@@ -21,21 +30,50 @@ const getProxyUrl = () => {
 export const EXCHANGE_APIS: { [key: string]: ExchangeApi } = {
   okx: {
     rest: 'https://www.okx.com/api/v5/market/books',
+    instruments: 'https://www.okx.com/api/v5/public/instruments?instType=SPOT',
     ws: `${getProxyUrl()}/okx`,
     name: 'OKX',
-    features: ['WebSocket', 'Real-time', 'High Frequency']
+    features: ['WebSocket', 'Real-time', 'High Frequency'],
+    feeTiers: [
+      { label: 'Regular', value: 'regular', maker: 0.0008, taker: 0.001 },
+      { label: 'VIP 1', value: 'vip1', maker: 0.00045, taker: 0.0005 },
+      { label: 'VIP 5', value: 'vip5', maker: 0.0001, taker: 0.0003 }
+    ]
   },
   bybit: {
     rest: 'https://api.bybit.com/v5/market/orderbook',
+    instruments: 'https://api.bybit.com/v5/market/instruments-info?category=linear&limit=1000',
     ws: `${getProxyUrl()}/bybit`,
     name: 'Bybit',
-    features: ['WebSocket', 'Derivatives', 'Real-time']
+    features: ['WebSocket', 'Derivatives', 'Real-time'],
+    feeTiers: [
+      { label: 'Non-VIP', value: 'vip0', maker: 0.0002, taker: 0.00055 },
+      { label: 'VIP 1', value: 'vip1', maker: 0.00018, taker: 0.0004 },
+      { label: 'VIP 5', value: 'vip5', maker: 0, taker: 0.0003 }
+    ]
   },
   deribit: {
     rest: 'https://www.deribit.com/api/v2/public/get_order_book',
+    instruments: 'https://www.deribit.com/api/v2/public/get_instruments?currency=any&kind=future&expired=false',
     ws: `${getProxyUrl()}/deribit`,
     name: 'Deribit',
-    features: ['Options', 'Futures', 'Professional']
+    features: ['Options', 'Futures', 'Professional'],
+    feeTiers: [
+      { label: 'Standard', value: 'standard', maker: 0, taker: 0.0005 },
+      { label: 'Market Maker', value: 'mm', maker: -0.0001, taker: 0.0005 }
+    ]
+  },
+  binance: {
+    rest: 'https://api.binance.us/api/v3/depth',
+    instruments: 'https://api.binance.us/api/v3/exchangeInfo',
+    ws: 'wss://stream.binance.us:9443/stream',
+    name: 'Binance US',
+    features: ['WebSocket', 'Spot', 'Direct Connection'],
+    feeTiers: [
+      { label: 'Tier 0', value: 'tier0', maker: 0.004, taker: 0.006 },
+      { label: 'Tier 3', value: 'tier3', maker: 0.0016, taker: 0.0024 },
+      { label: 'Tier 7', value: 'tier7', maker: 0, taker: 0.0005 }
+    ]
   },
 };
 
@@ -43,17 +81,20 @@ export const SYMBOL_MAPPINGS: { [symbol: string]: SymbolMapping } = {
   'BTC-USD': {
     okx: 'BTC-USDT',
     bybit: 'BTCUSDT',
-    deribit: 'BTC-PERPETUAL'
+    deribit: 'BTC-PERPETUAL',
+    binance: 'BTCUSDT'
   },
   'ETH-USD': {
     okx: 'ETH-USDT',
     bybit: 'ETHUSDT',
-    deribit: 'ETH-PERPETUAL'
+    deribit: 'ETH-PERPETUAL',
+    binance: 'ETHUSDT'
   },
   'SOL-USD': {
     okx: 'SOL-USDT',
     bybit: 'SOLUSDT',
-    deribit: 'SOL-PERPETUAL'
+    deribit: 'SOL-PERPETUAL',
+    binance: 'SOLUSDT'
   }
 };
 
@@ -65,10 +106,40 @@ export const VENUES = [
   { label: 'Deribit', value: 'deribit', description: 'Premier options and futures exchange' },
 ];
 
+// Simulated venues trade without fees
+const NO_FEES: FeeTier = { label: 'No fees', value: 'none', maker: 0, taker: 0 };
+
+// The selected tier for a venue, falling back to its entry tier
+export function getFeeTier(venue: string, tier?: string): FeeTier {
+  const tiers = EXCHANGE_APIS[venue]?.feeTiers;
+  if (!tiers) return NO_FEES;
+  return tiers.find(t => t.value === tier) || tiers[0];
+}
+
+// Attribution colours for multi-venue views (full class names so Tailwind picks them up)
+export const VENUE_COLORS: { [venue: string]: { text: string; bg: string } } = {
+  binance: { text: 'text-yellow-400', bg: 'bg-yellow-400' },
+  okx: { text: 'text-blue-400', bg: 'bg-blue-400' },
+  bybit: { text: 'text-green-400', bg: 'bg-green-400' },
+  deribit: { text: 'text-purple-400', bg: 'bg-purple-400' }
+};
+
 export function getExchangeSymbol(baseSymbol: string, venue: string): string {
   return SYMBOL_MAPPINGS[baseSymbol]?.[venue] || baseSymbol;
 }
 
+// The demo market simulates any symbol; live venues only stream what they list
+export function listsSymbol(baseSymbol: string, venue: string): boolean {
+  return venue === 'demo' || Boolean(SYMBOL_MAPPINGS[baseSymbol]?.[venue]);
+}
+
+// Merges venue listings loaded at runtime; a venue missing from a mapping keeps its known symbol
+export function registerSymbolMappings(mappings: { [symbol: string]: SymbolMapping }): void {
+  Object.entries(mappings).forEach(([symbol, mapping]) => {
+    SYMBOL_MAPPINGS[symbol] = { ...SYMBOL_MAPPINGS[symbol], ...mapping };
+  });
+}
+
 export function formatSymbolForDisplay(symbol: string): string {
   return symbol.replace('-PERPETUAL', ' PERP').replace('USDT', '/USDT').replace('-', '/');
 }
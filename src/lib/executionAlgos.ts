@@ -0,0 +1,302 @@
+// Algorithmic parent orders worked as child orders against the streaming book
+import { walkBook, getSpreadInfo, resolveOrderQuantity, type OrderbookLevel } from './marketCalculations';
+import { BookFlowMonitor, RestingOrderTracker } from './queueModel';
+
+type Book = { bids: OrderbookLevel[]; asks: OrderbookLevel[] };
+
+export type AlgoType = 'twap' | 'vwap' | 'pov' | 'iceberg';
+
+export const ALGO_TYPES: AlgoType[] = ['twap', 'vwap', 'pov', 'iceberg'];
+
+export const isAlgoOrder = (orderType: string): orderType is AlgoType =>
+  (ALGO_TYPES as string[]).includes(orderType);
+
+export interface AlgoParams {
+  durationSeconds: number; // schedule length for TWAP/VWAP, time limit for POV and iceberg
+  slices: number; // TWAP/VWAP child orders
+  participationRate: number; // POV share of observed book depletion, 0-1
+  displayQuantity: number; // iceberg clip shown on the book
+}
+
+export const DEFAULT_ALGO_PARAMS: AlgoParams = {
+  durationSeconds: 60,
+  slices: 6,
+  participationRate: 0.1,
+  displayQuantity: 0.1
+};
+
+export interface AlgoOrder {
+  side: string;
+  orderType: string;
+  quantity: string; // quote notional when sizing is 'quote'
+  price?: string;
+  sizing?: string;
+  algo?: AlgoParams;
+}
+
+export interface SliceFill {
+  index: number;
+  offsetMs: number; // since the parent started
+  liquidity: 'taker' | 'maker';
+  requestedQuantity: number;
+  filledQuantity: number;
+  averagePrice: number;
+  feeCost: number;
+  cumulativeQuantity: number;
+  cumulativeAveragePrice: number;
+}
+
+export interface AlgoReport {
+  algo: AlgoType;
+  arrivalMid: number;
+  requestedQuantity: number;
+  filledQuantity: number;
+  remainingQuantity: number;
+  workingQuantity: number; // unfilled part of the iceberg clip on the book
+  averagePrice: number;
+  totalCost: number; // gross
+  feeCost: number;
+  netCost: number;
+  shortfall: number; // net quote currency lost versus filling at the arrival mid; negative is a gain
+  shortfallBps: number;
+  slices: SliceFill[];
+  elapsedMs: number;
+  complete: boolean;
+}
+
+interface ChildFill {
+  offsetMs: number;
+  liquidity: 'taker' | 'maker';
+  requestedQuantity: number;
+  filledQuantity: number;
+  cost: number;
+}
+
+interface WorkingClip {
+  tracker: RestingOrderTracker;
+  quantity: number;
+  filledQuantity: number;
+}
+
+const POV_INTERVAL_MS = 1000;
+const EPSILON = 1e-9;
+
+// Intraday volume bunches at the start and end of a window, so VWAP slices follow a U-shaped profile
+const vwapWeight = (index: number, count: number) =>
+  count === 1 ? 1 : 1 + 2 * Math.pow((2 * index) / (count - 1) - 1, 2);
+
+// Cumulative quantity the schedule should have done after each slice
+function buildSchedule(algo: AlgoType, quantity: number, slices: number): number[] {
+  const weights = Array.from({ length: slices }, (_, i) => algo === 'vwap' ? vwapWeight(i, slices) : 1);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let cumulative = 0;
+  return weights.map((w, i) => {
+    cumulative += w;
+    return i === slices - 1 ? quantity : (quantity * cumulative) / total;
+  });
+}
+
+// Slices are released on book updates, so a paused replay holds the schedule until it resumes
+export class AlgoExecution {
+  private algo: AlgoType;
+  private side: string;
+  private requestedQuantity: number;
+  private limitPrice: number | null;
+  private params: AlgoParams;
+  private startedAt: number;
+  private lastBookAt: number;
+  private arrivalMid: number;
+  private schedule: number[];
+  private nextSlice = 0;
+  private flow = new BookFlowMonitor();
+  private lastParticipationAt: number;
+  private clip: WorkingClip | null = null;
+  private fills: ChildFill[] = [];
+  private filledQuantity = 0;
+  private done = false;
+
+  constructor(order: AlgoOrder, arrivalBook: Book, startedAt: number = Date.now()) {
+    if (!isAlgoOrder(order.orderType)) throw new Error(`Not an algorithmic order type: ${order.orderType}`);
+
+    this.algo = order.orderType;
+    this.side = order.side;
+    // A notional parent is fixed in base terms at arrival
+    this.requestedQuantity = resolveOrderQuantity(order.side === 'buy' ? arrivalBook.asks : arrivalBook.bids, order);
+    this.limitPrice = Number(order.price) || null;
+    this.params = { ...DEFAULT_ALGO_PARAMS, ...order.algo };
+    this.startedAt = startedAt;
+    this.lastBookAt = startedAt;
+    this.lastParticipationAt = startedAt;
+    this.arrivalMid = getSpreadInfo(arrivalBook).midPrice;
+    this.schedule = buildSchedule(this.algo, this.requestedQuantity, Math.max(1, Math.floor(this.params.slices)));
+    this.flow.observe(arrivalBook, startedAt);
+  }
+
+  get complete(): boolean {
+    return this.done;
+  }
+
+  onBook(book: Book, now: number = Date.now()): void {
+    if (this.done || book.bids.length === 0 || book.asks.length === 0) return;
+
+    this.lastBookAt = now;
+    this.flow.observe(book, now);
+
+    if (this.algo === 'twap' || this.algo === 'vwap') {
+      this.workSchedule(book, now);
+    } else if (this.algo === 'pov') {
+      this.workParticipation(book, now);
+    } else {
+      this.workIceberg(book, now);
+    }
+
+    const timedOut = now - this.startedAt >= this.params.durationSeconds * 1000;
+    const scheduleDone = (this.algo === 'twap' || this.algo === 'vwap') && this.nextSlice >= this.schedule.length;
+    if (this.requestedQuantity - this.filledQuantity <= EPSILON || scheduleDone || timedOut) {
+      this.finish(now);
+    }
+  }
+
+  // A venue switch or resync replaces the book wholesale; its size changes are not volume
+  resetFlow(): void {
+    this.flow.reset();
+  }
+
+  report(fees: { maker: number; taker: number } = { maker: 0, taker: 0 }): AlgoReport {
+    let cumulativeQuantity = 0;
+    let cumulativeCost = 0;
+    let feeCost = 0;
+
+    const slices = this.fills.map((fill, i) => {
+      const sliceFee = fill.cost * (fill.liquidity === 'maker' ? fees.maker : fees.taker);
+      cumulativeQuantity += fill.filledQuantity;
+      cumulativeCost += fill.cost;
+      feeCost += sliceFee;
+      return {
+        index: i + 1,
+        offsetMs: fill.offsetMs,
+        liquidity: fill.liquidity,
+        requestedQuantity: fill.requestedQuantity,
+        filledQuantity: fill.filledQuantity,
+        averagePrice: fill.filledQuantity > 0 ? fill.cost / fill.filledQuantity : 0,
+        feeCost: sliceFee,
+        cumulativeQuantity,
+        cumulativeAveragePrice: cumulativeQuantity > 0 ? cumulativeCost / cumulativeQuantity : 0
+      };
+    });
+
+    const netCost = this.side === 'buy' ? cumulativeCost + feeCost : cumulativeCost - feeCost;
+    const arrivalValue = this.arrivalMid * cumulativeQuantity;
+    const shortfall = this.side === 'buy' ? netCost - arrivalValue : arrivalValue - netCost;
+
+    return {
+      algo: this.algo,
+      arrivalMid: this.arrivalMid,
+      requestedQuantity: this.requestedQuantity,
+      filledQuantity: cumulativeQuantity,
+      remainingQuantity: Math.max(0, this.requestedQuantity - cumulativeQuantity),
+      workingQuantity: this.clip ? this.clip.quantity - this.clip.filledQuantity : 0,
+      averagePrice: cumulativeQuantity > 0 ? cumulativeCost / cumulativeQuantity : 0,
+      totalCost: cumulativeCost,
+      feeCost,
+      netCost,
+      shortfall,
+      shortfallBps: arrivalValue > 0 ? (shortfall / arrivalValue) * 10000 : 0,
+      slices,
+      elapsedMs: this.lastBookAt - this.startedAt,
+      complete: this.done
+    };
+  }
+
+  // Every slice that has come due is sent as one child, catching up anything earlier slices left unfilled
+  private workSchedule(book: Book, now: number): void {
+    const interval = (this.params.durationSeconds * 1000) / this.schedule.length;
+    let due = this.nextSlice - 1;
+    while (due + 1 < this.schedule.length && now >= this.startedAt + (due + 1) * interval) {
+      due++;
+    }
+    if (due < this.nextSlice) return;
+
+    this.nextSlice = due + 1;
+    this.take(book, this.schedule[due] - this.filledQuantity, now);
+  }
+
+  // Feeds carry no trades, so size leaving the touch on the side being taken, cancels included, stands in for market volume
+  private workParticipation(book: Book, now: number): void {
+    if (now - this.lastParticipationAt < POV_INTERVAL_MS) return;
+
+    const takeSide = this.side === 'buy' ? 'asks' : 'bids';
+    const volume = this.flow.depletionSince(takeSide, book[takeSide][0].price, this.lastParticipationAt);
+    this.lastParticipationAt = now;
+    this.take(book, Math.min(this.requestedQuantity - this.filledQuantity, volume * this.params.participationRate), now);
+  }
+
+  // One clip rests at a time; a filled clip is replaced by a fresh one at the back of the queue
+  private workIceberg(book: Book, now: number): void {
+    if (this.clip) {
+      const state = this.clip.tracker.update(book);
+      this.clip.filledQuantity = state.filledQuantity;
+      if (this.clip.quantity - this.clip.filledQuantity > EPSILON) return;
+
+      this.recordClip(now);
+    }
+
+    const remaining = this.requestedQuantity - this.filledQuantity;
+    if (remaining <= EPSILON) return;
+
+    const ownSide = this.side === 'buy' ? 'bids' : 'asks';
+    const price = this.limitPrice ?? book[ownSide][0].price;
+    let quantity = Math.min(this.params.displayQuantity, remaining);
+
+    // Whatever of the clip crosses the spread trades straight away
+    const taken = this.take(book, quantity, now, price);
+    quantity -= taken;
+    if (quantity > EPSILON) {
+      this.clip = { tracker: new RestingOrderTracker(ownSide, price, quantity, book), quantity, filledQuantity: 0 };
+    }
+  }
+
+  private take(book: Book, quantity: number, now: number, limitPrice: number | null = this.limitPrice): number {
+    if (quantity <= EPSILON) return 0;
+
+    const walk = walkBook(this.side === 'buy' ? book.asks : book.bids, this.side, quantity, limitPrice);
+    // An iceberg clip that does not cross is not a child order of its own
+    if (walk.filledQuantity <= 0 && this.algo === 'iceberg') return 0;
+
+    this.record({
+      offsetMs: now - this.startedAt,
+      liquidity: 'taker',
+      requestedQuantity: quantity,
+      filledQuantity: walk.filledQuantity,
+      cost: walk.totalCost
+    });
+    return walk.filledQuantity;
+  }
+
+  private recordClip(now: number): void {
+    if (!this.clip) return;
+
+    const { tracker, quantity, filledQuantity } = this.clip;
+    this.clip = null;
+    if (filledQuantity <= 0) return;
+
+    this.record({
+      offsetMs: now - this.startedAt,
+      liquidity: 'maker',
+      requestedQuantity: quantity,
+      filledQuantity,
+      cost: filledQuantity * tracker.current.price
+    });
+  }
+
+  private record(fill: ChildFill): void {
+    this.fills.push(fill);
+    this.filledQuantity += fill.filledQuantity;
+  }
+
+  private finish(now: number): void {
+    // A partly filled clip still counts; its unfilled rest is cancelled
+    this.recordClip(now);
+    this.done = true;
+  }
+}
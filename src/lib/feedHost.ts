@@ -0,0 +1,157 @@
+// Runs a WebSocketManager on behalf of BookFeed, usually inside the feed worker
+import { registerSymbolMappings, type SymbolMapping } from './exchanges';
+import { registerReplaySession, type Recording } from './marketDataRecorder';
+import { WebSocketManager, type WebSocketManagerOptions } from './webSocketManager';
+import type { OrderbookData } from './adapters';
+
+// Books reaching the UI thread per second are capped; the latest book always wins, so the UI-side simulations
+// (depletion tracking, queue estimates, stop triggers) only see the book as sampled at this interval
+const PUBLISH_INTERVAL_MS = 50;
+
+// Functions cannot cross the worker boundary, so resyncs come back as messages
+export type FeedOptions = Omit<WebSocketManagerOptions, 'onResync'>;
+
+// Commands that change what is streamed carry a generation; books from an older one are stale
+export type FeedCommand =
+  | {
+      type: 'connect';
+      exchange: string;
+      symbol: string;
+      mapping?: SymbolMapping; // runtime catalogue mappings live on the UI thread
+      options: FeedOptions;
+      replay?: { recording: Recording; speed: number };
+      generation: number;
+    }
+  | { type: 'setSymbol'; symbol: string; mapping?: SymbolMapping; generation: number }
+  | { type: 'setDepth'; depth: number; generation: number }
+  | { type: 'startRecording'; id: number }
+  | { type: 'stopRecording'; id: number }
+  | { type: 'setReplaySpeed'; speed: number }
+  | { type: 'stepReplay' }
+  | { type: 'disconnect' };
+
+export type FeedMessage =
+  | { type: 'book'; bids: Float64Array; asks: Float64Array; generation: number } // flat [price, qty, price, qty, ...]
+  | { type: 'connection'; connected: boolean; error?: string }
+  | { type: 'resync'; reason: string }
+  | { type: 'recording'; id: number; recording: boolean; ndjson: string | null };
+
+export type FeedPost = (message: FeedMessage, transfer?: Transferable[]) => void;
+
+export function encodeLevels(levels: Array<[number, number]>): Float64Array {
+  const encoded = new Float64Array(levels.length * 2);
+  levels.forEach(([price, quantity], i) => {
+    encoded[i * 2] = price;
+    encoded[i * 2 + 1] = quantity;
+  });
+  return encoded;
+}
+
+export function decodeLevels(encoded: Float64Array): Array<[number, number]> {
+  const levels: Array<[number, number]> = new Array(encoded.length / 2);
+  for (let i = 0; i < levels.length; i++) {
+    levels[i] = [encoded[i * 2], encoded[i * 2 + 1]];
+  }
+  return levels;
+}
+
+export class FeedHost {
+  private manager: WebSocketManager | null = null;
+  private post: FeedPost;
+  private generation = 0;
+  private pendingBook: OrderbookData | null = null;
+  private publishTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastPublishedAt = 0;
+
+  constructor(post: FeedPost) {
+    this.post = post;
+  }
+
+  handle(command: FeedCommand): void {
+    if (command.type === 'connect') {
+      this.connect(command);
+    } else if (command.type === 'setSymbol') {
+      if (command.mapping) registerSymbolMappings({ [command.symbol]: command.mapping });
+      this.restart(command.generation);
+      this.manager?.setSymbol(command.symbol);
+    } else if (command.type === 'setDepth') {
+      this.restart(command.generation);
+      this.manager?.setDepth(command.depth);
+    } else if (command.type === 'startRecording') {
+      this.manager?.startRecording();
+      this.post({ type: 'recording', id: command.id, recording: this.manager?.isRecording() ?? false, ndjson: null });
+    } else if (command.type === 'stopRecording') {
+      const ndjson = this.manager?.stopRecording() ?? null;
+      this.post({ type: 'recording', id: command.id, recording: false, ndjson });
+    } else if (command.type === 'setReplaySpeed') {
+      this.manager?.setReplaySpeed(command.speed);
+    } else if (command.type === 'stepReplay') {
+      this.manager?.stepReplay();
+    } else {
+      this.disconnect();
+    }
+  }
+
+  private connect(command: Extract<FeedCommand, { type: 'connect' }>): void {
+    this.disconnect();
+    this.restart(command.generation);
+    if (command.mapping) registerSymbolMappings({ [command.symbol]: command.mapping });
+
+    // Replay sessions are registered where the manager runs
+    const url = command.replay ? registerReplaySession(command.replay.recording, command.replay.speed) : command.options.url;
+
+    this.manager = new WebSocketManager(
+      command.exchange,
+      command.symbol,
+      data => this.queueBook(data),
+      (connected, error) => this.post({ type: 'connection', connected, error }),
+      { ...command.options, url, onResync: reason => this.post({ type: 'resync', reason }) }
+    );
+    this.manager.connect();
+  }
+
+  // Publishes at most one book per interval, sending whichever arrived last
+  private queueBook(data: OrderbookData): void {
+    this.pendingBook = data;
+    if (this.publishTimer) return;
+
+    const wait = this.lastPublishedAt + PUBLISH_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      this.publishBook();
+      return;
+    }
+    this.publishTimer = setTimeout(() => {
+      this.publishTimer = null;
+      this.publishBook();
+    }, wait);
+  }
+
+  private publishBook(): void {
+    const book = this.pendingBook;
+    if (!book) return;
+
+    this.pendingBook = null;
+    this.lastPublishedAt = Date.now();
+    const bids = encodeLevels(book.bids);
+    const asks = encodeLevels(book.asks);
+    // Transferring the buffers hands them over without a copy
+    this.post({ type: 'book', bids, asks, generation: this.generation }, [bids.buffer, asks.buffer]);
+  }
+
+  // A queued book belongs to the previous symbol or depth
+  private restart(generation: number): void {
+    this.generation = generation;
+    this.pendingBook = null;
+    if (this.publishTimer) {
+      clearTimeout(this.publishTimer);
+      this.publishTimer = null;
+    }
+    this.lastPublishedAt = 0;
+  }
+
+  private disconnect(): void {
+    this.manager?.disconnect();
+    this.manager = null;
+    this.restart(this.generation);
+  }
+}
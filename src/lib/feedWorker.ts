@@ -0,0 +1,6 @@
+// Worker entry: the venue socket, JSON parsing and book maintenance run here, off the UI thread
+import { FeedHost, type FeedCommand } from './feedHost';
+
+const host = new FeedHost((message, transfer = []) => self.postMessage(message, { transfer }));
+
+self.addEventListener('message', (event: MessageEvent<FeedCommand>) => host.handle(event.data));
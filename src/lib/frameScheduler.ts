@@ -0,0 +1,89 @@
+// Coalesces high-frequency feed updates into at most one UI flush per animation frame
+export const REFRESH_RATES = [10, 20, 30, 60]; // flushes per second
+export const DEFAULT_REFRESH_RATE = 30;
+
+// rAF timestamps jitter around the display interval; without slack a 60 fps cap would skip every other frame
+const FRAME_SLACK_MS = 2;
+
+export interface FrameStats {
+  rendered: number; // flushes handed to the UI
+  dropped: number; // updates folded into a later one instead of rendering on their own
+}
+
+export class FrameScheduler<T> {
+  private queue: T[] = [];
+  private handler: ((updates: T[]) => void) | null = null;
+  private maxRate: number;
+  private lastFlushAt = 0;
+  private frame: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stats: FrameStats = { rendered: 0, dropped: 0 };
+
+  constructor(maxRate: number = DEFAULT_REFRESH_RATE) {
+    this.maxRate = maxRate;
+  }
+
+  // Receives every update queued since the last flush, oldest first
+  setHandler(handler: (updates: T[]) => void): void {
+    this.handler = handler;
+    if (this.queue.length > 0) this.schedule();
+  }
+
+  setMaxRate(rate: number): void {
+    this.maxRate = rate;
+  }
+
+  push(update: T): void {
+    this.queue.push(update);
+    this.schedule();
+  }
+
+  // Discards queued updates, e.g. when the stream switches to another book
+  clear(): void {
+    this.queue = [];
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    if (this.timer) clearTimeout(this.timer);
+    this.frame = null;
+    this.timer = null;
+  }
+
+  getStats(): FrameStats {
+    return { ...this.stats };
+  }
+
+  private schedule(): void {
+    if (this.frame !== null || this.timer) return;
+
+    // Hidden tabs get no animation frames, but simulations still need their books
+    if (typeof requestAnimationFrame === 'undefined' || document.hidden) {
+      const wait = Math.max(0, this.lastFlushAt + 1000 / this.maxRate - performance.now());
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush(performance.now());
+      }, wait);
+      return;
+    }
+
+    this.frame = requestAnimationFrame(now => {
+      this.frame = null;
+      this.flush(now);
+    });
+  }
+
+  private flush(now: number): void {
+    if (this.queue.length === 0 || !this.handler) return;
+
+    // Too soon after the last flush for the rate cap: try again next frame
+    if (now - this.lastFlushAt < 1000 / this.maxRate - FRAME_SLACK_MS) {
+      this.schedule();
+      return;
+    }
+
+    const updates = this.queue;
+    this.queue = [];
+    this.lastFlushAt = now;
+    this.stats.rendered++;
+    this.stats.dropped += updates.length - 1;
+    this.handler(updates);
+  }
+}
@@ -0,0 +1,179 @@
+// Trading rules for each venue symbol: price and size increments, minimums and contract size
+import { getExchangeSymbol } from './exchanges';
+import { DEMO_MARKET_CONFIGS } from './demoMarket';
+
+export interface InstrumentSpec {
+  tickSize: number; // price increment
+  lotSize: number; // order size increment, in contracts
+  minSize: number; // smallest order, in contracts
+  maxSize?: number; // largest single order, in contracts, where the venue publishes one
+  minNotional: number; // smallest order value in quote currency, 0 when there is none
+  contractMultiplier: number; // base units per contract, or quote units for inverse contracts
+  inverse?: boolean; // contracts are sized in the quote currency (Deribit perpetuals)
+}
+
+export interface DisplayPrecision {
+  pricePrecision: number; // decimals
+  quantityPrecision: number;
+}
+
+export interface Instrument extends InstrumentSpec, DisplayPrecision {}
+
+export interface OrderSizeErrors {
+  price?: string;
+  quantity?: string;
+}
+
+// Decimals needed to show every multiple of a step exactly
+function decimalsFor(step: number): number {
+  let decimals = 0;
+  while (decimals < 12 && Math.abs(Math.round(step * 10 ** decimals) - step * 10 ** decimals) > 1e-9) {
+    decimals++;
+  }
+  return decimals;
+}
+
+function defineInstrument(spec: InstrumentSpec): Instrument {
+  return {
+    ...spec,
+    pricePrecision: decimalsFor(spec.tickSize),
+    // Inverse contracts are quoted in USD, but the simulator sizes orders in the base asset
+    quantityPrecision: spec.inverse ? 4 : decimalsFor(spec.lotSize * spec.contractMultiplier)
+  };
+}
+
+const DEFAULT_INSTRUMENT = defineInstrument({ tickSize: 0.01, lotSize: 0.0001, minSize: 0.0001, minNotional: 0, contractMultiplier: 1 });
+
+// Published venue rules; refresh them here when a venue changes its filters
+const INSTRUMENT_SPECS: { [venue: string]: { [venueSymbol: string]: InstrumentSpec } } = {
+  okx: {
+    'BTC-USDT': { tickSize: 0.1, lotSize: 0.00000001, minSize: 0.00001, minNotional: 0, contractMultiplier: 1 },
+    'ETH-USDT': { tickSize: 0.01, lotSize: 0.000001, minSize: 0.0001, minNotional: 0, contractMultiplier: 1 },
+    'SOL-USDT': { tickSize: 0.01, lotSize: 0.000001, minSize: 0.001, minNotional: 0, contractMultiplier: 1 }
+  },
+  bybit: {
+    BTCUSDT: { tickSize: 0.1, lotSize: 0.001, minSize: 0.001, maxSize: 1190, minNotional: 5, contractMultiplier: 1 },
+    ETHUSDT: { tickSize: 0.01, lotSize: 0.01, minSize: 0.01, maxSize: 7240, minNotional: 5, contractMultiplier: 1 },
+    SOLUSDT: { tickSize: 0.01, lotSize: 0.1, minSize: 0.1, maxSize: 79770, minNotional: 5, contractMultiplier: 1 }
+  },
+  deribit: {
+    'BTC-PERPETUAL': { tickSize: 0.5, lotSize: 1, minSize: 1, minNotional: 0, contractMultiplier: 10, inverse: true },
+    'ETH-PERPETUAL': { tickSize: 0.05, lotSize: 1, minSize: 1, minNotional: 0, contractMultiplier: 1, inverse: true }
+  },
+  binance: {
+    BTCUSDT: { tickSize: 0.01, lotSize: 0.00001, minSize: 0.00001, maxSize: 9000, minNotional: 10, contractMultiplier: 1 },
+    ETHUSDT: { tickSize: 0.01, lotSize: 0.0001, minSize: 0.0001, maxSize: 9000, minNotional: 10, contractMultiplier: 1 },
+    SOLUSDT: { tickSize: 0.01, lotSize: 0.001, minSize: 0.001, maxSize: 90000, minNotional: 10, contractMultiplier: 1 }
+  },
+  // The demo market quotes on its own tick grid
+  demo: Object.fromEntries(Object.entries(DEMO_MARKET_CONFIGS).map(([symbol, config]) => [
+    symbol,
+    { tickSize: config.tickSize, lotSize: 0.0001, minSize: 0.0001, minNotional: 0, contractMultiplier: 1 }
+  ]))
+};
+
+const INSTRUMENTS: { [venue: string]: { [venueSymbol: string]: Instrument } } = Object.fromEntries(
+  Object.entries(INSTRUMENT_SPECS).map(([venue, specs]) => [
+    venue,
+    Object.fromEntries(Object.entries(specs).map(([symbol, spec]) => [symbol, defineInstrument(spec)]))
+  ])
+);
+
+// Listings loaded from the venues replace the published rules above
+export function registerInstruments(venue: string, specs: { [venueSymbol: string]: InstrumentSpec }): void {
+  INSTRUMENTS[venue] = {
+    ...INSTRUMENTS[venue],
+    ...Object.fromEntries(Object.entries(specs).map(([symbol, spec]) => [symbol, defineInstrument(spec)]))
+  };
+}
+
+// Rules for a base symbol on a venue; unknown instruments get permissive defaults
+export function getInstrument(symbol: string, venue: string): Instrument {
+  return INSTRUMENTS[venue]?.[getExchangeSymbol(symbol, venue)] || DEFAULT_INSTRUMENT;
+}
+
+// Precision that shows every venue's prices and sizes exactly, for multi-venue views
+export function getCombinedPrecision(symbol: string, venues: string[]): DisplayPrecision {
+  const instruments = venues.map(venue => getInstrument(symbol, venue));
+  return {
+    pricePrecision: Math.max(DEFAULT_INSTRUMENT.pricePrecision, ...instruments.map(i => i.pricePrecision)),
+    quantityPrecision: Math.max(DEFAULT_INSTRUMENT.quantityPrecision, ...instruments.map(i => i.quantityPrecision))
+  };
+}
+
+// Snap to the nearest multiple of a step, without floating point residue
+export function roundToIncrement(value: number, step: number): number {
+  return Number((Math.round(value / step) * step).toFixed(decimalsFor(step)));
+}
+
+// Steps like 0.00000001 read better without exponent notation
+export const formatStep = (step: number) => step.toFixed(decimalsFor(step));
+
+const isMultipleOf = (value: number, step: number) => Math.abs(roundToIncrement(value, step) - value) <= step * 1e-6;
+
+// Order size in the venue's contracts; inverse contracts need a price to convert
+export function toContracts(instrument: Instrument, baseQuantity: number, price: number | null): number | null {
+  if (!instrument.inverse) return baseQuantity / instrument.contractMultiplier;
+  return price ? (baseQuantity * price) / instrument.contractMultiplier : null;
+}
+
+export function validatePrice(instrument: Instrument, price: number): string | undefined {
+  return isMultipleOf(price, instrument.tickSize)
+    ? undefined
+    : `Price must be a multiple of the ${formatStep(instrument.tickSize)} tick size`;
+}
+
+// Describes the size filters for form hints
+export function describeSizeRules(instrument: Instrument): string {
+  if (instrument.inverse) {
+    return `Contracts of $${instrument.contractMultiplier}, tick ${formatStep(instrument.tickSize)}`;
+  }
+  const rules = [
+    `Lot ${formatStep(instrument.lotSize * instrument.contractMultiplier)}`,
+    `min ${formatStep(instrument.minSize * instrument.contractMultiplier)}`
+  ];
+  if (instrument.maxSize !== undefined) rules.push(`max ${instrument.maxSize * instrument.contractMultiplier}`);
+  if (instrument.minNotional > 0) rules.push(`min value $${instrument.minNotional}`);
+  return rules.join(' · ');
+}
+
+// Checks a price and size against the venue's filters. `quantity` is base units, or quote
+// notional when `sizing` is 'quote'; `price` is the limit price when there is one
+export function validateOrderSize(
+  instrument: Instrument,
+  order: { quantity: number; sizing?: string; price?: number | null }
+): OrderSizeErrors {
+  const errors: OrderSizeErrors = {};
+  const price = order.price || null;
+  const { lotSize, minSize, maxSize, minNotional, contractMultiplier } = instrument;
+
+  if (price !== null) {
+    errors.price = validatePrice(instrument, price);
+  }
+
+  if (order.sizing === 'quote') {
+    if (order.quantity < minNotional) {
+      errors.quantity = `Notional must be at least $${minNotional}`;
+    } else if (instrument.inverse && !isMultipleOf(order.quantity / contractMultiplier, lotSize)) {
+      errors.quantity = `Notional must be a multiple of the $${contractMultiplier * lotSize} contract`;
+    }
+    return errors;
+  }
+
+  const contracts = toContracts(instrument, order.quantity, price);
+  if (contracts !== null) {
+    const shown = (value: number) => instrument.inverse ? `${value} contract${value === 1 ? '' : 's'}` : formatStep(value * contractMultiplier);
+    if (contracts < minSize - 1e-12) {
+      errors.quantity = `Quantity must be at least ${shown(minSize)}`;
+    } else if (maxSize !== undefined && contracts > maxSize) {
+      errors.quantity = `Quantity cannot exceed ${shown(maxSize)} on this venue`;
+    } else if (!instrument.inverse && !isMultipleOf(contracts, lotSize)) {
+      // Inverse contract counts depend on the fill price, so a base size is converted rather than checked
+      errors.quantity = `Quantity must be a multiple of the ${formatStep(lotSize * contractMultiplier)} lot size`;
+    }
+  }
+  if (!errors.quantity && price !== null && order.quantity * price < minNotional) {
+    errors.quantity = `Order value must be at least $${minNotional}`;
+  }
+  return errors;
+}
@@ -1,15 +1,27 @@
+import type { DisplayPrecision } from './instruments';
+
 export interface OrderbookLevel {
   price: number;
   quantity: number;
 }
 
+export type OrderStatus = 'filled' | 'partial' | 'resting' | 'cancelled' | 'rejected';
+
 export interface OrderMetrics {
+  status: OrderStatus;
+  statusReason: string | null;
+  requestedQuantity: number; // base quantity, resolved from the notional for quote-sized orders
+  filledQuantity: number;
   fillPercentage: number;
   marketImpact: number;
   slippage: number;
   averageFillPrice: number;
-  totalCost: number;
+  totalCost: number; // gross notional, before fees
+  feeCost: number;
+  netCost: number; // paid including fees (buy) or received after fees (sell)
+  effectivePrice: number; // fee-inclusive average fill price
   remainingQuantity: number;
+  restingQuantity: number; // unfilled part of a limit order left on the book at its price
   estimatedTimeToFill: number;
   priceImpactWarning: boolean;
   liquidityWarning: boolean;
@@ -21,6 +33,75 @@ export interface OrderbookImbalance {
   strength: 'weak' | 'moderate' | 'strong';
 }
 
+export interface BookWalk<T extends OrderbookLevel = OrderbookLevel> {
+  filledQuantity: number;
+  totalCost: number;
+  remainingQuantity: number;
+  fills: T[]; // levels consumed best first, quantity being the amount taken
+}
+
+// Consume levels best-first until the quantity is filled or the limit price is reached
+export function walkBook<T extends OrderbookLevel>(
+  levels: T[],
+  side: string,
+  quantity: number,
+  limitPrice: number | null
+): BookWalk<T> {
+  let remainingQuantity = quantity;
+  let filledQuantity = 0;
+  let totalCost = 0;
+  const fills: T[] = [];
+
+  for (const level of levels) {
+    if (remainingQuantity <= 0) break;
+    
+    if (canFillAt(side, level.price, limitPrice)) {
+      const fillQuantity = Math.min(level.quantity, remainingQuantity);
+      filledQuantity += fillQuantity;
+      totalCost += fillQuantity * level.price;
+      remainingQuantity -= fillQuantity;
+      fills.push({ ...level, quantity: fillQuantity });
+    }
+  }
+
+  return { filledQuantity, totalCost, remainingQuantity, fills };
+}
+
+const canFillAt = (side: string, price: number, limitPrice: number | null) =>
+  limitPrice === null || (side === 'buy' && price <= limitPrice) || (side === 'sell' && price >= limitPrice);
+
+// Base quantity an order stands for against these levels. Quote-sized orders (`quantity` is
+// the notional) spend it best price first; whatever the book cannot absorb is converted at
+// the limit price, where it would rest, or else at the last price reached
+export function resolveOrderQuantity(
+  levels: OrderbookLevel[],
+  order: { side: string; orderType: string; quantity: string; price?: string; sizing?: string }
+): number {
+  const amount = Number(order.quantity) || 0;
+  if (order.sizing !== 'quote') return amount;
+
+  const limitPrice = order.orderType === 'market' ? null : Number(order.price) || null;
+  let remainingNotional = amount;
+  let quantity = 0;
+  let lastPrice: number | null = null;
+
+  for (const level of levels) {
+    if (remainingNotional <= 0) break;
+    if (!canFillAt(order.side, level.price, limitPrice)) continue;
+
+    const taken = Math.min(level.quantity, remainingNotional / level.price);
+    quantity += taken;
+    remainingNotional -= taken * level.price;
+    lastPrice = level.price;
+  }
+
+  const conversionPrice = limitPrice ?? lastPrice;
+  if (remainingNotional > 1e-9 && conversionPrice) {
+    quantity += remainingNotional / conversionPrice;
+  }
+  return quantity;
+}
+
 export function calculateOrderMetrics(
   orderbook: { bids: OrderbookLevel[]; asks: OrderbookLevel[] },
   simulatedOrder: {
@@ -29,61 +110,143 @@ export function calculateOrderMetrics(
     quantity: string;
     orderType: string;
     timing: number;
-  }
+    timeInForce?: string;
+    postOnly?: boolean;
+    sizing?: string;
+  },
+  fees: { maker: number; taker: number } = { maker: 0, taker: 0 }
 ): OrderMetrics {
   const side = simulatedOrder.side;
   const orderPrice = simulatedOrder.price ? Number(simulatedOrder.price) : 0;
-  const orderQuantity = Number(simulatedOrder.quantity);
-  const isMarketOrder = simulatedOrder.orderType === 'market';
+  // Stops are sized as the order they become once triggered; algorithmic parents
+  // and stops without a limit price sweep the book like a market order
+  const isMarketOrder = simulatedOrder.orderType === 'market' || !orderPrice;
+  const timeInForce = simulatedOrder.timeInForce || 'gtc';
   
   const relevantLevels = side === 'buy' ? orderbook.asks : orderbook.bids;
   const bestPrice = relevantLevels[0]?.price || 0;
+  const orderQuantity = resolveOrderQuantity(relevantLevels, simulatedOrder);
   
-  let remainingQuantity = orderQuantity;
-  let filledQuantity = 0;
-  let totalCost = 0;
+  const walk = walkBook(
+    relevantLevels,
+    side,
+    orderQuantity,
+    isMarketOrder ? null : orderPrice
+  );
 
-  for (const level of relevantLevels) {
-    if (remainingQuantity <= 0) break;
-    
-    const canFillAtLevel = isMarketOrder || 
-      (side === 'buy' && level.price <= orderPrice) ||
-      (side === 'sell' && level.price >= orderPrice);
-    
-    if (canFillAtLevel) {
-      const fillQuantity = Math.min(level.quantity, remainingQuantity);
-      filledQuantity += fillQuantity;
-      totalCost += fillQuantity * level.price;
-      remainingQuantity -= fillQuantity;
-    }
+  let rejection: string | null = null;
+  if (simulatedOrder.postOnly && !isMarketOrder && walk.filledQuantity > 0) {
+    rejection = `Post-only order would cross the spread at ${formatCurrency(bestPrice)}`;
+  } else if (timeInForce === 'fok' && walk.remainingQuantity > 1e-9) {
+    rejection = `Fill-or-kill: only ${formatQuantity(walk.filledQuantity)} of ${formatQuantity(orderQuantity)} available`;
   }
+  // A rejected order never trades
+  const { filledQuantity, totalCost, remainingQuantity } = rejection
+    ? { filledQuantity: 0, totalCost: 0, remainingQuantity: orderQuantity }
+    : walk;
+  const restingQuantity = isMarketOrder || rejection || timeInForce !== 'gtc' ? 0 : remainingQuantity;
 
-  const fillPercentage = (filledQuantity / orderQuantity) * 100;
-  const averageFillPrice = filledQuantity > 0 ? totalCost / filledQuantity : orderPrice;
+  let status: OrderStatus;
+  let statusReason: string | null = rejection;
+  if (rejection) {
+    status = 'rejected';
+  } else if (remainingQuantity <= 1e-9) {
+    status = 'filled';
+  } else if (restingQuantity > 0) {
+    status = filledQuantity > 0 ? 'partial' : 'resting';
+    statusReason = `${formatQuantity(restingQuantity)} rests at ${formatCurrency(orderPrice)}`;
+  } else if (filledQuantity > 0) {
+    status = 'partial';
+    statusReason = isMarketOrder && timeInForce === 'gtc'
+      ? `${formatQuantity(remainingQuantity)} beyond the visible depth`
+      : `Unfilled ${formatQuantity(remainingQuantity)} cancelled (immediate-or-cancel)`;
+  } else {
+    status = 'cancelled';
+    statusReason = isMarketOrder ? 'No liquidity on the book' : 'Nothing available at the limit price; immediate-or-cancel';
+  }
+
+  const fillPercentage = orderQuantity > 0 ? (filledQuantity / orderQuantity) * 100 : 0;
+  const averageFillPrice = filledQuantity > 0 ? totalCost / filledQuantity : orderPrice || bestPrice;
+  // Everything filled here crosses the spread, so it pays the taker rate
+  const feeCost = totalCost * fees.taker;
+  const netCost = side === 'buy' ? totalCost + feeCost : totalCost - feeCost;
+  const effectivePrice = filledQuantity > 0 ? netCost / filledQuantity : averageFillPrice;
   const marketImpact = Math.abs(averageFillPrice - bestPrice);
   const slippage = Math.abs(averageFillPrice - (orderPrice || bestPrice));
   
   const priceImpactWarning = marketImpact > bestPrice * 0.005; // 0.5% threshold
   const liquidityWarning = fillPercentage < 95;
   
-  // Estimate time to fill based on market conditions and order size
-  const baseTimeToFill = simulatedOrder.timing;
-  const liquidityAdjustment = fillPercentage < 100 ? (100 - fillPercentage) * 0.1 : 0;
-  const estimatedTimeToFill = baseTimeToFill + liquidityAdjustment;
+  // Estimate time to fill from the unfilled share; a delayed order is filled against the book
+  // it finds when the delay elapses, so the delay itself is not part of the estimate
+  const estimatedTimeToFill = fillPercentage < 100 ? (100 - fillPercentage) * 0.1 : 0;
 
   return {
+    status,
+    statusReason,
+    requestedQuantity: orderQuantity,
+    filledQuantity,
     fillPercentage,
     marketImpact,
     slippage,
     averageFillPrice,
     totalCost,
+    feeCost,
+    netCost,
+    effectivePrice,
     remainingQuantity,
+    restingQuantity,
     estimatedTimeToFill,
     priceImpactWarning,
     liquidityWarning
   };
 }
 
+export interface DelayedExecution {
+  predicted: OrderMetrics; // against the book when the order was submitted
+  realized: OrderMetrics; // against the book when the delay elapsed
+  midDrift: number; // mid price at execution minus mid price at submission
+  fillPriceDrift: number; // realized minus predicted average fill price
+  costOfWaiting: number; // extra net cost (buy) or lost net proceeds (sell); negative when waiting paid off
+}
+
+// Price the same order on the submission book and the book it actually met after the delay
+export function calculateDelayedExecution(
+  submittedBook: { bids: OrderbookLevel[]; asks: OrderbookLevel[] },
+  executedBook: { bids: OrderbookLevel[]; asks: OrderbookLevel[] },
+  simulatedOrder: {
+    side: string;
+    price?: string;
+    quantity: string;
+    orderType: string;
+    timing: number;
+    timeInForce?: string;
+    postOnly?: boolean;
+    sizing?: string;
+  },
+  fees: { maker: number; taker: number } = { maker: 0, taker: 0 }
+): DelayedExecution {
+  const predicted = calculateOrderMetrics(submittedBook, simulatedOrder, fees);
+  const realized = calculateOrderMetrics(executedBook, simulatedOrder, fees);
+  const comparableQuantity = Math.min(predicted.filledQuantity, realized.filledQuantity);
+  const effectiveDrift = realized.effectivePrice - predicted.effectivePrice;
+
+  return {
+    predicted,
+    realized,
+    midDrift: getSpreadInfo(executedBook).midPrice - getSpreadInfo(submittedBook).midPrice,
+    fillPriceDrift: realized.averageFillPrice - predicted.averageFillPrice,
+    costOfWaiting: (simulatedOrder.side === 'buy' ? effectiveDrift : -effectiveDrift) * comparableQuantity
+  };
+}
+
+export const isStopOrder = (orderType: string) => orderType === 'stop' || orderType === 'stop-limit';
+
+// Buy stops trigger when the reference price rises to the stop, sell stops when it falls to it
+export function isStopTriggered(side: string, stopPrice: number, referencePrice: number): boolean {
+  return side === 'buy' ? referencePrice >= stopPrice : referencePrice <= stopPrice;
+}
+
 export function calculateOrderbookImbalance(
   orderbook: { bids: OrderbookLevel[]; asks: OrderbookLevel[] }
 ): OrderbookImbalance {
@@ -126,12 +289,14 @@ export function getSpreadInfo(orderbook: { bids: OrderbookLevel[]; asks: Orderbo
   };
 }
 
-export function formatCurrency(value: number, decimals: number = 2): string {
+// `decimals` may be an instrument's precision, to show prices at its tick size
+export function formatCurrency(value: number, decimals: number | Pick<DisplayPrecision, 'pricePrecision'> = 2): string {
+  const digits = typeof decimals === 'number' ? decimals : decimals.pricePrecision;
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: 'USD',
-    minimumFractionDigits: decimals,
-    maximumFractionDigits: decimals
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
   }).format(value);
 }
 
@@ -139,6 +304,7 @@ export function formatPercentage(value: number, decimals: number = 2): string {
   return `${value.toFixed(decimals)}%`;
 }
 
-export function formatQuantity(value: number, decimals: number = 4): string {
-  return value.toFixed(decimals);
+// `decimals` may be an instrument's precision, to show sizes at its lot size
+export function formatQuantity(value: number, decimals: number | Pick<DisplayPrecision, 'quantityPrecision'> = 4): string {
+  return value.toFixed(typeof decimals === 'number' ? decimals : decimals.quantityPrecision);
 }
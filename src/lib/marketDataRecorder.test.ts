@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_RECORDED_ENTRIES,
+  MarketDataRecorder,
+  describeTruncation,
+  parseRecording,
+  parseRecordingHeader
+} from './marketDataRecorder';
+
+describe('MarketDataRecorder', () => {
+  it('saves a complete session without a truncation mark', () => {
+    const recorder = new MarketDataRecorder('okx', 'BTC-USD', 400);
+    recorder.record({ ts: 1, raw: '{}' });
+
+    const recording = parseRecording(recorder.toNdjson());
+    expect(recorder.truncated).toBe(false);
+    expect(recording.entries).toEqual([{ ts: 1, raw: '{}' }]);
+    expect(describeTruncation(recording.header)).toBeNull();
+  });
+
+  it('stops at the size cap and marks the header with the first dropped entry', () => {
+    const recorder = new MarketDataRecorder('okx', 'BTC-USD', 400);
+    for (let ts = 0; ts < MAX_RECORDED_ENTRIES + 3; ts++) {
+      recorder.record({ ts, raw: '{}' });
+    }
+
+    const ndjson = recorder.toNdjson();
+    const header = parseRecordingHeader(ndjson);
+    expect(recorder.size).toBe(MAX_RECORDED_ENTRIES);
+    expect(recorder.truncated).toBe(true);
+    expect(header.truncatedAt).toBe(MAX_RECORDED_ENTRIES);
+    expect(parseRecording(ndjson).header).toEqual(header);
+    expect(describeTruncation(header)).toContain('later data was not saved');
+  });
+
+  it('rejects files without a header line', () => {
+    expect(() => parseRecordingHeader('{"ts":1,"raw":"{}"}\n')).toThrow('missing header line');
+  });
+});
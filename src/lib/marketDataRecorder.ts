@@ -0,0 +1,161 @@
+// Capture raw market data sessions as NDJSON and replay them through the same parse pipeline
+import type { OrderbookSnapshot } from './restApi';
+
+export const REPLAY_SCHEME = 'replay://';
+
+// Guard against unbounded memory use when a recording is left running; later entries are dropped and the header says so
+export const MAX_RECORDED_ENTRIES = 200000;
+
+export interface RecordingHeader {
+  type: 'header';
+  version: 1;
+  venue: string;
+  symbol: string; // base symbol, e.g. BTC-USD
+  depth: number;
+  startedAt: number;
+  truncatedAt?: number; // receive time of the first entry dropped at MAX_RECORDED_ENTRIES
+}
+
+// Every entry carries its receive timestamp (ms since epoch)
+export type RecordedEntry =
+  | { ts: number; raw: string } // WebSocket frame exactly as received
+  | { ts: number; snapshot: OrderbookSnapshot | null } // REST snapshot result for REST-synced feeds
+  | { ts: number; subscription: { symbol: string; depth: number } }; // symbol or depth switch
+
+export interface Recording {
+  header: RecordingHeader;
+  entries: RecordedEntry[];
+}
+
+export class MarketDataRecorder {
+  private header: RecordingHeader;
+  private entries: RecordedEntry[] = [];
+
+  constructor(venue: string, symbol: string, depth: number) {
+    this.header = { type: 'header', version: 1, venue, symbol, depth, startedAt: Date.now() };
+  }
+
+  record(entry: RecordedEntry): void {
+    if (this.entries.length < MAX_RECORDED_ENTRIES) {
+      this.entries.push(entry);
+    } else if (this.header.truncatedAt === undefined) {
+      this.header.truncatedAt = entry.ts;
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get truncated(): boolean {
+    return this.header.truncatedAt !== undefined;
+  }
+
+  toNdjson(): string {
+    return [this.header, ...this.entries].map(line => JSON.stringify(line)).join('\n') + '\n';
+  }
+}
+
+export function parseRecording(ndjson: string): Recording {
+  const lines = ndjson.split('\n').filter(line => line.trim().length > 0);
+  return {
+    header: parseHeaderLine(lines[0]),
+    entries: lines.slice(1).map(line => JSON.parse(line) as RecordedEntry)
+  };
+}
+
+// Reads only the first line, for callers that need the session details but not the data
+export function parseRecordingHeader(ndjson: string): RecordingHeader {
+  const end = ndjson.indexOf('\n');
+  return parseHeaderLine(end === -1 ? ndjson : ndjson.slice(0, end));
+}
+
+function parseHeaderLine(line: string | undefined): RecordingHeader {
+  const header = JSON.parse(line || '{}') as RecordingHeader;
+  if (header.type !== 'header' || header.version !== 1) {
+    throw new Error('Not a market data recording (missing header line)');
+  }
+  return header;
+}
+
+// What the user should know about a recording cut off at the size cap, or null if it is complete
+export function describeTruncation(header: RecordingHeader): string | null {
+  if (header.truncatedAt === undefined) return null;
+  return `Recording hit the ${MAX_RECORDED_ENTRIES.toLocaleString()}-message limit at ${new Date(header.truncatedAt).toLocaleTimeString()}; later data was not saved`;
+}
+
+// Loaded recordings are addressed by replay://<id>?speed=<multiplier>, speed 0 meaning stepwise
+const replaySessions = new Map<string, Recording>();
+let nextReplayId = 1;
+
+export function registerReplaySession(recording: Recording, speed: number = 1): string {
+  const id = `session-${nextReplayId++}`;
+  replaySessions.set(id, recording);
+  return `${REPLAY_SCHEME}${id}?speed=${speed}`;
+}
+
+export function resolveReplayUrl(url: string): { recording: Recording; speed: number } | null {
+  const [id, query = ''] = url.slice(REPLAY_SCHEME.length).split('?');
+  const recording = replaySessions.get(id);
+  if (!recording) return null;
+
+  const speed = Number(new URLSearchParams(query).get('speed') ?? 1);
+  return { recording, speed: Number.isFinite(speed) && speed >= 0 ? speed : 1 };
+}
+
+export class ReplayPlayer {
+  private index = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private recording: Recording;
+  private speed: number;
+  private onEntry: (entry: RecordedEntry) => void;
+  private onEnd: () => void;
+
+  constructor(recording: Recording, speed: number, onEntry: (entry: RecordedEntry) => void, onEnd: () => void) {
+    this.recording = recording;
+    this.speed = speed;
+    this.onEntry = onEntry;
+    this.onEnd = onEnd;
+  }
+
+  play(): void {
+    this.pause();
+    this.scheduleNext();
+  }
+
+  pause(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Deliver exactly one entry; returns false once the recording is exhausted
+  step(): boolean {
+    if (this.index >= this.recording.entries.length) return false;
+    this.onEntry(this.recording.entries[this.index++]);
+    if (this.index >= this.recording.entries.length) this.onEnd();
+    return true;
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+    this.play();
+  }
+
+  get progress(): { position: number; total: number } {
+    return { position: this.index, total: this.recording.entries.length };
+  }
+
+  private scheduleNext(): void {
+    if (this.speed === 0 || this.index >= this.recording.entries.length) return;
+
+    const entries = this.recording.entries;
+    const previous = entries[this.index - 1];
+    const delay = previous ? Math.max(0, entries[this.index].ts - previous.ts) / this.speed : 0;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.step()) this.scheduleNext();
+    }, delay);
+  }
+}
@@ -0,0 +1,68 @@
+// Local L2 order book maintained from exchange snapshots and incremental updates
+
+// [price, size] exactly as sent by the venue; checksums are computed over the raw strings
+export type RawLevel = [string, string];
+
+export type BookSide = 'bids' | 'asks';
+
+export class LocalOrderBook {
+  private bids = new Map<number, RawLevel>();
+  private asks = new Map<number, RawLevel>();
+
+  // Venue-specific sequence marker of the last applied message (seqId, update id, change id...)
+  sequence: number | null = null;
+
+  // Incremental updates only make sense on top of a snapshot
+  synced = false;
+
+  applySnapshot(bids: RawLevel[], asks: RawLevel[]): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyUpdate(bids, asks);
+    this.synced = true;
+  }
+
+  // Merge updated levels into the book; a zero quantity removes the level
+  applyUpdate(bids: RawLevel[], asks: RawLevel[]): void {
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+  }
+
+  // Levels sorted best first: bids descending, asks ascending
+  getLevels(side: BookSide, depth?: number): RawLevel[] {
+    const levels = side === 'bids' ? this.bids : this.asks;
+    const prices = Array.from(levels.keys()).sort((a, b) => side === 'bids' ? b - a : a - b);
+    const limited = depth === undefined ? prices : prices.slice(0, depth);
+    return limited.map(price => levels.get(price) as RawLevel);
+  }
+
+  toOrderbookData(depth: number = 15): { bids: Array<[number, number]>; asks: Array<[number, number]> } {
+    const toNumbers = ([price, size]: RawLevel): [number, number] => [Number(price), Number(size)];
+    return {
+      bids: this.getLevels('bids', depth).map(toNumbers),
+      asks: this.getLevels('asks', depth).map(toNumbers)
+    };
+  }
+
+  isEmpty(): boolean {
+    return this.bids.size === 0 && this.asks.size === 0;
+  }
+
+  clear(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.sequence = null;
+    this.synced = false;
+  }
+
+  private applyLevels(levels: Map<number, RawLevel>, updates: RawLevel[]): void {
+    for (const [price, size] of updates) {
+      const key = Number(price);
+      if (Number(size) === 0) {
+        levels.delete(key);
+      } else {
+        levels.set(key, [price, size]);
+      }
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_QUANTITY_PRESETS, getQuantityPresets } from './orderFormOptions';
+import { getInstrument } from './instruments';
+
+const values = (presets: { value: string }[]) => presets.map(preset => preset.value);
+
+describe('getQuantityPresets', () => {
+  it('converts the notional buckets to readable base sizes at the reference price', () => {
+    expect(values(getQuantityPresets(getInstrument('BTC-USD', 'binance'), 65000))).toEqual(['0.02', '0.2', '1', '5']);
+    expect(values(getQuantityPresets(getInstrument('SOL-USD', 'bybit'), 150))).toEqual(['5', '50', '500', '2000']);
+  });
+
+  it('adapts to symbols without hand-picked presets', () => {
+    const instrument = { ...getInstrument('BTC-USD', 'binance'), lotSize: 1, minSize: 1, maxSize: undefined };
+    expect(values(getQuantityPresets(instrument, 0.0004))).toEqual(['2000000', '20000000', '100000000', '500000000']);
+  });
+
+  it('snaps to the lot and raises small buckets to the venue minimum', () => {
+    const instrument = { ...getInstrument('BTC-USD', 'binance'), lotSize: 0.01, minSize: 0.05 };
+    expect(values(getQuantityPresets(instrument, 60000))).toEqual(['0.05', '0.2', '1', '5']);
+  });
+
+  it('drops buckets that collapse onto the same size', () => {
+    const instrument = { ...getInstrument('BTC-USD', 'binance'), lotSize: 1, minSize: 1 };
+    expect(values(getQuantityPresets(instrument, 65000))).toEqual(['1', '5']);
+  });
+
+  it('caps sizes at the venue maximum', () => {
+    const instrument = { ...getInstrument('BTC-USD', 'binance'), maxSize: 2 };
+    expect(values(getQuantityPresets(instrument, 65000))).toEqual(['0.02', '0.2', '1', '2']);
+  });
+
+  it('sizes inverse contracts in base units at the display precision', () => {
+    expect(values(getQuantityPresets(getInstrument('BTC-USD', 'deribit'), 65000))).toEqual(['0.02', '0.2', '1', '5']);
+    expect(values(getQuantityPresets(getInstrument('BTC-USD', 'deribit'), 65000000))).toEqual(['0.0001', '0.0002', '0.001', '0.005']);
+  });
+
+  it('falls back to fixed presets until a price is known', () => {
+    expect(getQuantityPresets(getInstrument('BTC-USD', 'binance'), null)).toBe(DEFAULT_QUANTITY_PRESETS);
+  });
+});
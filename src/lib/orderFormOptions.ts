@@ -1,12 +1,20 @@
+import { formatStep, roundToIncrement, type Instrument } from "./instruments";
+
 export const SYMBOLS = [
-  { label: "BTC/USD", value: "BTC-USD", description: "Bitcoin against USD" },
-  { label: "ETH/USD", value: "ETH-USD", description: "Ethereum against USD" },
-  { label: "SOL/USD", value: "SOL-USD", description: "Solana against USD" },
+  { label: "BTC/USD", value: "BTC-USD", base: "BTC", quote: "USD", description: "Bitcoin against USD" },
+  { label: "ETH/USD", value: "ETH-USD", base: "ETH", quote: "USD", description: "Ethereum against USD" },
+  { label: "SOL/USD", value: "SOL-USD", base: "SOL", quote: "USD", description: "Solana against USD" },
 ];
 
 export const ORDER_TYPES = [
   { label: "Market", value: "market", description: "Execute immediately at best available price" },
   { label: "Limit", value: "limit", description: "Execute only at specified price or better" },
+  { label: "Stop", value: "stop", description: "Becomes a market order once the trigger price is reached" },
+  { label: "Stop Limit", value: "stop-limit", description: "Becomes a limit order once the trigger price is reached" },
+  { label: "TWAP", value: "twap", description: "Equal child orders at even intervals over the duration" },
+  { label: "VWAP", value: "vwap", description: "Child orders weighted to a U-shaped intraday volume profile" },
+  { label: "POV", value: "pov", description: "Take a fixed share of the size leaving the book each second" },
+  { label: "Iceberg", value: "iceberg", description: "Rest a small visible clip at the limit price, refilling as it fills" },
 ];
 
 export const SIDES = [
@@ -14,16 +22,69 @@ export const SIDES = [
   { label: "Sell", value: "sell", description: "Sell the base asset", color: "text-red-400" },
 ];
 
+export const TIME_IN_FORCE = [
+  { label: "GTC", value: "gtc", description: "Good till cancelled: any unfilled remainder rests on the book" },
+  { label: "IOC", value: "ioc", description: "Immediate or cancel: fill what is available now, cancel the rest" },
+  { label: "FOK", value: "fok", description: "Fill or kill: fill the whole quantity immediately or reject it" },
+];
+
+export const STOP_TRIGGERS = [
+  { label: "Mid Price", value: "mid", description: "Trigger when the mid price reaches the stop" },
+  { label: "Last Price", value: "last", description: "Trigger when the last trade, inferred from size leaving the touch, reaches the stop" },
+];
+
 export const TIMINGS = [
   { label: "Immediate", value: 0, description: "Execute order instantly" },
-  { label: "5s Delay", value: 5, description: "Simulate 5 second market delay" },
-  { label: "10s Delay", value: 10, description: "Simulate 10 second market delay" },
-  { label: "30s Delay", value: 30, description: "Simulate 30 second market delay" },
+  { label: "5s Delay", value: 5, description: "Execute against the live book 5 seconds after submission" },
+  { label: "10s Delay", value: 10, description: "Execute against the live book 10 seconds after submission" },
+  { label: "30s Delay", value: 30, description: "Execute against the live book 30 seconds after submission" },
+];
+
+export const SIZING_MODES = [
+  { label: "Base", value: "base", description: "Size the order in the base asset" },
+  { label: "Notional", value: "quote", description: "Spend a quote amount; the book walk decides the base quantity" },
 ];
 
-export const QUANTITY_PRESETS = [
+// Shown until the book view has reported a price for the symbol
+export const DEFAULT_QUANTITY_PRESETS = [
   { label: "0.01", value: "0.01" },
   { label: "0.1", value: "0.1" },
   { label: "1", value: "1" },
   { label: "10", value: "10" },
 ];
+
+export const NOTIONAL_PRESETS = [
+  { label: "$1K", value: "1000" },
+  { label: "$10K", value: "10000" },
+  { label: "$50K", value: "50000" },
+  { label: "$250K", value: "250000" },
+];
+
+// Nearest of 1, 2 and 5 times a power of ten, so a converted bucket reads as a round size
+function roundToReadable(value: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const mantissa = [1, 2, 5, 10].reduce((best, m) => Math.abs(Math.log(value / magnitude / m)) < Math.abs(Math.log(value / magnitude / best)) ? m : best);
+  return mantissa * magnitude;
+}
+
+// Base presets worth roughly each notional bucket at the reference price, on the venue's lot grid and within its size limits
+export function getQuantityPresets(instrument: Instrument, referencePrice: number | null): { label: string; value: string }[] {
+  if (!referencePrice || referencePrice <= 0) return DEFAULT_QUANTITY_PRESETS;
+
+  // Inverse contracts are sized in USD, so base sizes only need the display precision
+  const lot = instrument.inverse ? 10 ** -instrument.quantityPrecision : instrument.lotSize * instrument.contractMultiplier;
+  const minimum = Math.max(
+    instrument.inverse
+      ? instrument.minSize * instrument.contractMultiplier / referencePrice
+      : instrument.minSize * instrument.contractMultiplier,
+    instrument.minNotional / referencePrice
+  );
+  const maximum = instrument.maxSize !== undefined && !instrument.inverse ? instrument.maxSize * instrument.contractMultiplier : Infinity;
+  const snapUp = (value: number) => roundToIncrement(Math.ceil(value / lot - 1e-9) * lot, lot);
+
+  const sizes = NOTIONAL_PRESETS.map(({ value }) => {
+    const size = roundToIncrement(roundToReadable(Number(value) / referencePrice), lot);
+    return Math.min(Math.max(size, snapUp(minimum)), maximum);
+  });
+  return Array.from(new Set(sizes)).map(size => ({ label: formatStep(size), value: formatStep(size) }));
+}
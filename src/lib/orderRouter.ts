@@ -0,0 +1,169 @@
+// Split a simulated order across venues for the lowest all-in cost
+import { walkBook, resolveOrderQuantity, type OrderbookLevel } from './marketCalculations';
+import { toBaseUnitBooks, type VenueBook } from './consolidatedBook';
+
+export interface RoutableOrder {
+  side: string;
+  orderType: string;
+  quantity: string; // quote notional when sizing is 'quote'
+  price?: string;
+  sizing?: string;
+}
+
+export interface ChildOrder {
+  venue: string;
+  quantity: number;
+  averagePrice: number;
+  cost: number; // gross quote notional paid (buy) or received (sell)
+  feeCost: number;
+  netCost: number;
+  effectivePrice: number; // fee-inclusive average price
+  fills: OrderbookLevel[];
+}
+
+export interface SingleVenueFill {
+  venue: string;
+  filledQuantity: number;
+  totalCost: number;
+  netCost: number;
+  effectivePrice: number;
+}
+
+export interface RoutingPlan {
+  side: string;
+  requestedQuantity: number;
+  children: ChildOrder[]; // largest allocation first
+  filledQuantity: number;
+  remainingQuantity: number;
+  totalCost: number;
+  feeCost: number;
+  netCost: number;
+  averagePrice: number;
+  effectivePrice: number;
+  bestSingleVenue: SingleVenueFill | null;
+  savings: number; // net quote currency saved versus the best single venue, on the quantity it can fill
+  savingsBps: number;
+  additionalFill: number; // quantity only fillable by splitting
+}
+
+type VenueLevel = OrderbookLevel & { venue: string; effectivePrice: number };
+
+const sideLevels = (book: VenueBook, side: string) => side === 'buy' ? book.asks : book.bids;
+
+// Price improvement is positive when `price` is better than `reference` for the order side
+const improvement = (side: string, reference: number, price: number) =>
+  side === 'buy' ? reference - price : price - reference;
+
+// Fees add to what a buyer pays and come out of what a seller receives
+const withFee = (side: string, notional: number, rate: number) =>
+  side === 'buy' ? notional * (1 + rate) : notional * (1 - rate);
+
+// takerFees: per-venue taker rate for the user's tier; venues without an entry trade free
+export function routeOrder(
+  symbol: string,
+  venueBooks: { [venue: string]: VenueBook },
+  order: RoutableOrder,
+  takerFees: { [venue: string]: number } = {}
+): RoutingPlan {
+  const { side } = order;
+  // Quantities are walked in base units, so inverse contract books are converted first
+  const books = toBaseUnitBooks(venueBooks, symbol);
+  const limitPrice = order.orderType === 'market' ? null : Number(order.price) || null;
+  const feeRate = (venue: string) => takerFees[venue] || 0;
+
+  // Taking liquidity best fee-inclusive price first across every venue minimises the all-in cost
+  const levels: VenueLevel[] = Object.entries(books)
+    .flatMap(([venue, book]) => sideLevels(book, side).map(level => ({
+      ...level,
+      venue,
+      effectivePrice: withFee(side, level.price, feeRate(venue))
+    })))
+    .sort((a, b) => side === 'buy' ? a.effectivePrice - b.effectivePrice : b.effectivePrice - a.effectivePrice);
+  const requestedQuantity = resolveOrderQuantity(levels, order);
+  const walk = walkBook(levels, side, requestedQuantity, limitPrice);
+
+  const byVenue = new Map<string, ChildOrder>();
+  walk.fills.forEach(({ venue, price, quantity }) => {
+    const child = byVenue.get(venue) || {
+      venue, quantity: 0, averagePrice: 0, cost: 0, feeCost: 0, netCost: 0, effectivePrice: 0, fills: []
+    };
+    child.quantity += quantity;
+    child.cost += price * quantity;
+    child.fills.push({ price, quantity });
+    byVenue.set(venue, child);
+  });
+  const children = Array.from(byVenue.values())
+    .map(child => {
+      const netCost = withFee(side, child.cost, feeRate(child.venue));
+      return {
+        ...child,
+        averagePrice: child.cost / child.quantity,
+        feeCost: child.cost * feeRate(child.venue),
+        netCost,
+        effectivePrice: netCost / child.quantity
+      };
+    })
+    .sort((a, b) => b.quantity - a.quantity);
+
+  const feeCost = children.reduce((sum, child) => sum + child.feeCost, 0);
+  const netCost = children.reduce((sum, child) => sum + child.netCost, 0);
+  const bestSingleVenue = findBestSingleVenue(books, side, requestedQuantity, limitPrice, feeRate);
+
+  // Compare like for like: the routed net cost of exactly what the single venue could fill
+  let savings = 0;
+  if (bestSingleVenue) {
+    const comparable = walkBook(levels, side, bestSingleVenue.filledQuantity, limitPrice);
+    const comparableNet = comparable.fills.reduce(
+      (sum, fill) => sum + withFee(side, fill.price * fill.quantity, feeRate(fill.venue)), 0
+    );
+    savings = improvement(side, bestSingleVenue.netCost, comparableNet);
+  }
+
+  return {
+    side,
+    requestedQuantity,
+    children,
+    filledQuantity: walk.filledQuantity,
+    remainingQuantity: walk.remainingQuantity,
+    totalCost: walk.totalCost,
+    feeCost,
+    netCost,
+    averagePrice: walk.filledQuantity > 0 ? walk.totalCost / walk.filledQuantity : 0,
+    effectivePrice: walk.filledQuantity > 0 ? netCost / walk.filledQuantity : 0,
+    bestSingleVenue,
+    savings,
+    savingsBps: bestSingleVenue ? (savings / bestSingleVenue.netCost) * 10000 : 0,
+    additionalFill: walk.filledQuantity - (bestSingleVenue?.filledQuantity || 0)
+  };
+}
+
+// The venue that fills the most, breaking ties on fee-inclusive price
+function findBestSingleVenue(
+  books: { [venue: string]: VenueBook },
+  side: string,
+  quantity: number,
+  limitPrice: number | null,
+  feeRate: (venue: string) => number
+): SingleVenueFill | null {
+  let best: SingleVenueFill | null = null;
+
+  for (const [venue, book] of Object.entries(books)) {
+    const walk = walkBook(sideLevels(book, side), side, quantity, limitPrice);
+    if (walk.filledQuantity <= 0) continue;
+
+    const netCost = withFee(side, walk.totalCost, feeRate(venue));
+    const candidate = {
+      venue,
+      filledQuantity: walk.filledQuantity,
+      totalCost: walk.totalCost,
+      netCost,
+      effectivePrice: netCost / walk.filledQuantity
+    };
+    const fillDifference = best ? candidate.filledQuantity - best.filledQuantity : Infinity;
+    if (fillDifference > 1e-12 || (best && Math.abs(fillDifference) <= 1e-12 && improvement(side, best.effectivePrice, candidate.effectivePrice) > 0)) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
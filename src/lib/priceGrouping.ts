@@ -0,0 +1,91 @@
+// Aggregates book levels into coarser price buckets for display
+import { formatStep, roundToIncrement } from './instruments';
+import type { OrderbookLevel } from './marketCalculations';
+
+type Side = 'bids' | 'asks';
+
+export interface GroupedLevel extends OrderbookLevel {
+  notional: number; // price × quantity summed over the raw levels in the bucket
+  cumulative: number; // quantity in this bucket and every better one
+  levelCount: number;
+}
+
+export interface GroupingOption {
+  label: string;
+  value: string;
+}
+
+// Multiples of the instrument tick, then buckets sized relative to the mid price
+const TICK_MULTIPLES = [1, 10, 100, 1000];
+const BPS_BUCKETS = [1, 5, 10, 25];
+
+// Guards floor/ceil against prices like 0.3 / 0.1 = 2.9999999999999996
+const EPSILON = 1e-9;
+
+export function getGroupingOptions(tickSize: number): GroupingOption[] {
+  return [
+    ...TICK_MULTIPLES.map(multiple => ({
+      label: multiple === 1 ? `${formatStep(tickSize)} (tick)` : formatStep(roundToIncrement(tickSize * multiple, tickSize)),
+      value: `tick:${multiple}`
+    })),
+    ...BPS_BUCKETS.map(bps => ({ label: `${bps} ${bps === 1 ? 'bp' : 'bps'}`, value: `bps:${bps}` }))
+  ];
+}
+
+// Basis-point buckets snap to a 1/2/5 step on the tick grid, so they hold still while the mid drifts
+function niceStep(raw: number, tickSize: number): number {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const fraction = raw / magnitude;
+  const step = (fraction >= 5 ? 5 : fraction >= 2 ? 2 : 1) * magnitude;
+  return Math.max(tickSize, roundToIncrement(step, tickSize));
+}
+
+// Bucket width in price for a grouping option; 0 leaves the book ungrouped
+export function getGroupingStep(grouping: string, tickSize: number, midPrice: number): number {
+  const [kind, amount] = grouping.split(':');
+  const size = Number(amount);
+  if (!(size > 0) || !(tickSize > 0)) return 0;
+
+  if (kind === 'tick') return size === 1 ? 0 : roundToIncrement(tickSize * size, tickSize);
+  if (kind === 'bps' && midPrice > 0) return niceStep((midPrice * size) / 10000, tickSize);
+  return 0;
+}
+
+// Bids round down and asks round up, so a bucket never shows a better price than it can fill at
+export function bucketPrice(price: number, side: Side, step: number): number {
+  if (step <= 0) return price;
+  const bucket = side === 'bids' ? Math.floor(price / step + EPSILON) : Math.ceil(price / step - EPSILON);
+  return roundToIncrement(bucket * step, step);
+}
+
+// Levels arrive best first, so buckets come out best first too
+export function groupLevels(levels: OrderbookLevel[], side: Side, step: number): GroupedLevel[] {
+  const grouped: GroupedLevel[] = [];
+  let cumulative = 0;
+
+  levels.forEach(level => {
+    const price = bucketPrice(level.price, side, step);
+    cumulative += level.quantity;
+
+    const last = grouped[grouped.length - 1];
+    if (last && last.price === price) {
+      last.quantity += level.quantity;
+      last.notional += level.price * level.quantity;
+      last.cumulative = cumulative;
+      last.levelCount++;
+    } else {
+      grouped.push({ price, quantity: level.quantity, notional: level.price * level.quantity, cumulative, levelCount: 1 });
+    }
+  });
+  return grouped;
+}
+
+export function groupBook(
+  book: { bids: OrderbookLevel[]; asks: OrderbookLevel[] },
+  step: number
+): { bids: GroupedLevel[]; asks: GroupedLevel[] } {
+  return {
+    bids: groupLevels(book.bids, 'bids', step),
+    asks: groupLevels(book.asks, 'asks', step)
+  };
+}
@@ -0,0 +1,235 @@
+// Queue position and fill probability for limit orders resting on the book
+import type { OrderbookLevel } from './marketCalculations';
+
+type Book = { bids: OrderbookLevel[]; asks: OrderbookLevel[] };
+type Side = 'bids' | 'asks';
+
+interface DepletionEvent {
+  side: Side;
+  price: number;
+  quantity: number;
+  timestamp: number;
+}
+
+export interface DepletionStats {
+  volumePerSecond: number; // quantity removed at or better than the price
+  eventsPerSecond: number;
+  meanEventSize: number;
+  observedSeconds: number;
+}
+
+export interface FillProbability {
+  horizon: number; // seconds
+  anyFill: number; // 0-1
+  fullFill: number;
+}
+
+export interface RestingOrderState {
+  side: Side;
+  price: number;
+  quantity: number;
+  betterVolume: number; // resting at strictly better prices, always ahead in price priority
+  levelAhead: number; // ahead of us at our own price (time priority)
+  filledQuantity: number;
+  atTouch: boolean;
+}
+
+const DEFAULT_WINDOW_MS = 60000;
+
+// Bids are better when higher, asks when lower
+const isBetter = (side: Side, price: number, than: number) => side === 'bids' ? price > than : price < than;
+const isBetterOrEqual = (side: Side, price: number, than: number) => price === than || isBetter(side, price, than);
+
+// Records every reduction in resting size, from cancels or trades, over a sliding window
+export class BookFlowMonitor {
+  private events: DepletionEvent[] = [];
+  private previous: Book | null = null;
+  private firstObservedAt: number | null = null;
+  private lastTouchPrice: number | null = null;
+  private windowMs: number;
+
+  constructor(windowMs: number = DEFAULT_WINDOW_MS) {
+    this.windowMs = windowMs;
+  }
+
+  observe(book: Book, timestamp: number = Date.now()): void {
+    if (this.previous) {
+      this.recordDepletion('bids', this.previous.bids, book.bids, timestamp);
+      this.recordDepletion('asks', this.previous.asks, book.asks, timestamp);
+    } else {
+      this.firstObservedAt = timestamp;
+    }
+    this.previous = book;
+
+    const cutoff = timestamp - this.windowMs;
+    while (this.events.length > 0 && this.events[0].timestamp < cutoff) {
+      this.events.shift();
+    }
+  }
+
+  reset(): void {
+    this.events = [];
+    this.previous = null;
+    this.firstObservedAt = null;
+    this.lastTouchPrice = null;
+  }
+
+  // Feeds carry no trades; the deepest size taken off a touch stands in for the last trade price,
+  // though a cancel at the touch moves it just the same
+  get lastDepletedTouchPrice(): number | null {
+    return this.lastTouchPrice;
+  }
+
+  // Depletion that has to happen before a resting order at `price` can trade
+  stats(side: Side, price: number, now: number = Date.now()): DepletionStats {
+    const observedSeconds = this.firstObservedAt === null
+      ? 0
+      : Math.min(this.windowMs, now - this.firstObservedAt) / 1000;
+    const relevant = this.events.filter(e => e.side === side && isBetterOrEqual(side, e.price, price));
+    const volume = relevant.reduce((sum, e) => sum + e.quantity, 0);
+
+    return {
+      volumePerSecond: observedSeconds > 0 ? volume / observedSeconds : 0,
+      eventsPerSecond: observedSeconds > 0 ? relevant.length / observedSeconds : 0,
+      meanEventSize: relevant.length > 0 ? volume / relevant.length : 0,
+      observedSeconds
+    };
+  }
+
+  // Size removed at or better than `price` since a timestamp; trades and cancels cannot be told apart
+  depletionSince(side: Side, price: number, since: number): number {
+    return this.events.reduce(
+      (sum, e) => e.side === side && e.timestamp > since && isBetterOrEqual(side, e.price, price) ? sum + e.quantity : sum,
+      0
+    );
+  }
+
+  private recordDepletion(side: Side, before: OrderbookLevel[], after: OrderbookLevel[], timestamp: number): void {
+    if (after.length === 0) return;
+
+    const current = new Map(after.map(level => [level.price, level.quantity]));
+    const worstVisible = after[after.length - 1].price;
+
+    before.forEach(({ price, quantity }) => {
+      // Levels that merely scrolled out of the visible depth tell us nothing
+      if (isBetter(side, worstVisible, price)) return;
+
+      const removed = quantity - (current.get(price) || 0);
+      if (removed > 0) {
+        this.events.push({ side, price, quantity: removed, timestamp });
+        // Levels are best first, so the last one at or through the new touch is the deepest taken
+        if (isBetterOrEqual(side, price, after[0].price)) this.lastTouchPrice = price;
+      }
+    });
+  }
+}
+
+// Follows one simulated resting order through book updates
+export class RestingOrderTracker {
+  private state: RestingOrderState;
+  private levelQuantity: number;
+
+  constructor(side: Side, price: number, quantity: number, book: Book) {
+    const levels = book[side];
+    const betterVolume = sumBetter(levels, side, price);
+    this.levelQuantity = levels.find(level => level.price === price)?.quantity || 0;
+    this.state = {
+      side,
+      price,
+      quantity,
+      betterVolume,
+      levelAhead: this.levelQuantity, // joins the back of the queue
+      filledQuantity: 0,
+      atTouch: betterVolume === 0
+    };
+  }
+
+  update(book: Book): RestingOrderState {
+    const { side, price, quantity } = this.state;
+    const levels = book[side];
+    const opposite = side === 'bids' ? book.asks : book.bids;
+    const levelQuantity = levels.find(level => level.price === price)?.quantity || 0;
+    const betterVolume = sumBetter(levels, side, price);
+    const atTouch = betterVolume === 0;
+    const removed = Math.max(0, this.levelQuantity - levelQuantity);
+
+    let { levelAhead, filledQuantity } = this.state;
+    if (opposite[0] && isBetterOrEqual(side, opposite[0].price, price)) {
+      // The other side traded through our price
+      levelAhead = 0;
+      filledQuantity = quantity;
+    } else if (removed > 0 && atTouch) {
+      // At the touch, reductions are mostly trades consuming the front of the queue, then us
+      const throughUs = Math.max(0, removed - levelAhead);
+      levelAhead = Math.max(0, levelAhead - removed);
+      filledQuantity = Math.min(quantity, filledQuantity + throughUs);
+    } else if (removed > 0) {
+      // Behind the touch only cancels remove size, spread evenly across the queue
+      levelAhead = Math.max(0, levelAhead - removed * (levelAhead / this.levelQuantity));
+    }
+
+    this.levelQuantity = levelQuantity;
+    this.state = { ...this.state, betterVolume, levelAhead: Math.min(levelAhead, levelQuantity), filledQuantity, atTouch };
+    return this.state;
+  }
+
+  get current(): RestingOrderState {
+    return this.state;
+  }
+}
+
+function sumBetter(levels: OrderbookLevel[], side: Side, price: number): number {
+  return levels.reduce((sum, level) => isBetter(side, level.price, price) ? sum + level.quantity : sum, 0);
+}
+
+// Above this many terms the exact sum is too slow for a per-update estimate
+const POISSON_EXACT_TERMS = 500;
+
+// Standard normal CDF via the Abramowitz-Stegun erf approximation (error below 1.5e-7)
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// P(N >= k) for N ~ Poisson(lambda)
+function poissonAtLeast(k: number, lambda: number): number {
+  if (k <= 0) return 1;
+  if (lambda <= 0) return 0;
+
+  // Deep queues need k terms; the normal approximation with continuity correction is
+  // accurate there, and when lambda is small next to k both round to zero anyway
+  if (k > POISSON_EXACT_TERMS) {
+    return Math.min(1, Math.max(0, 1 - normalCdf((k - 0.5 - lambda) / Math.sqrt(lambda))));
+  }
+
+  // Terms are built in log space so large horizons do not underflow exp(-lambda)
+  let logTerm = -lambda;
+  let below = Math.exp(logTerm);
+  for (let n = 1; n < k; n++) {
+    logTerm += Math.log(lambda / n);
+    below += Math.exp(logTerm);
+  }
+  return Math.min(1, Math.max(0, 1 - below));
+}
+
+// Depletion arrives as a Poisson stream of mean-sized events; the order fills once it eats through the queue ahead
+export function estimateFillProbability(
+  order: RestingOrderState,
+  stats: DepletionStats,
+  horizon: number
+): FillProbability {
+  const remaining = order.quantity - order.filledQuantity;
+  if (remaining <= 0) return { horizon, anyFill: 1, fullFill: 1 };
+  if (stats.meanEventSize <= 0) return { horizon, anyFill: 0, fullFill: 0 };
+
+  const ahead = order.betterVolume + order.levelAhead;
+  const lambda = stats.eventsPerSecond * horizon;
+  return {
+    horizon,
+    anyFill: order.filledQuantity > 0 ? 1 : poissonAtLeast(Math.floor(ahead / stats.meanEventSize) + 1, lambda),
+    fullFill: poissonAtLeast(Math.ceil((ahead + remaining) / stats.meanEventSize), lambda)
+  };
+}
@@ -1,27 +1,76 @@
-// REST API fallback for initial orderbook data when WebSocket fails
+// REST order book snapshots: initial data when WebSocket fails, and the sync point for incremental feeds
+import { EXCHANGE_APIS } from './exchanges';
+import type { RawLevel } from './orderBook';
+
 export interface RestOrderbookData {
   bids: [number, number][];
   asks: [number, number][];
 }
 
-// For production deployment, we can use REST APIs as fallback
-export const getInitialOrderbook = async (venue: string, symbol: string): Promise<RestOrderbookData | null> => {
+export interface OrderbookSnapshot {
+  bids: RawLevel[];
+  asks: RawLevel[];
+  // Venue sequence the snapshot corresponds to (Binance lastUpdateId, Bybit u, Deribit change_id, OKX seqId)
+  updateId: number | null;
+}
+
+const toRawLevels = (levels: Array<Array<string | number>>): RawLevel[] =>
+  levels.map(([price, size]) => [String(price), String(size)]);
+
+// Fetch a full-depth snapshot using each venue's documented REST endpoint
+export const fetchOrderbookSnapshot = async (venue: string, symbol: string, limit: number = 1000): Promise<OrderbookSnapshot | null> => {
+  const api = EXCHANGE_APIS[venue];
+  if (!api) return null;
+
   try {
-    // These endpoints work in production environments
-    if (venue === "okx") {
-      const response = await fetch(`https://www.okx.com/api/v5/market/books?instId=${symbol}`);
+    if (venue === 'binance') {
+      const response = await fetch(`${api.rest}?symbol=${symbol}&limit=${Math.min(limit, 5000)}`);
+      const data = await response.json();
+      if (typeof data.lastUpdateId === 'number') {
+        return { bids: toRawLevels(data.bids), asks: toRawLevels(data.asks), updateId: data.lastUpdateId };
+      }
+    }
+
+    if (venue === 'okx') {
+      const response = await fetch(`${api.rest}?instId=${symbol}&sz=${Math.min(limit, 400)}`);
+      const data = await response.json();
+      if (data.code === '0' && data.data?.[0]) {
+        const book = data.data[0];
+        return { bids: toRawLevels(book.bids), asks: toRawLevels(book.asks), updateId: book.seqId ?? null };
+      }
+    }
+
+    if (venue === 'bybit') {
+      const response = await fetch(`${api.rest}?category=linear&symbol=${symbol}&limit=${Math.min(limit, 500)}`);
+      const data = await response.json();
+      if (data.retCode === 0 && data.result) {
+        return { bids: toRawLevels(data.result.b), asks: toRawLevels(data.result.a), updateId: data.result.u ?? null };
+      }
+    }
+
+    if (venue === 'deribit') {
+      const response = await fetch(`${api.rest}?instrument_name=${symbol}&depth=${Math.min(limit, 10000)}`);
       const data = await response.json();
-      if (data.code === "0" && data.data?.[0]) {
-        return {
-          bids: data.data[0].bids.slice(0, 15).map(([p, q]: [string, string]) => [Number(p), Number(q)]),
-          asks: data.data[0].asks.slice(0, 15).map(([p, q]: [string, string]) => [Number(p), Number(q)])
-        };
+      if (data.result) {
+        return { bids: toRawLevels(data.result.bids), asks: toRawLevels(data.result.asks), updateId: data.result.change_id ?? null };
       }
     }
-    // Note: Bybit and Deribit REST APIs also have CORS restrictions in browser
+    // Note: Bybit, OKX and Deribit REST APIs have CORS restrictions in browser
     // In production, these would work through a proxy or server-side implementation
   } catch (error) {
-    console.warn(`REST API fallback failed for ${venue}:`, error);
+    console.warn(`REST snapshot failed for ${venue}:`, error);
   }
   return null;
 };
+
+// For production deployment, we can use REST APIs as fallback
+export const getInitialOrderbook = async (venue: string, symbol: string): Promise<RestOrderbookData | null> => {
+  const snapshot = await fetchOrderbookSnapshot(venue, symbol, 15);
+  if (!snapshot) return null;
+
+  const toNumbers = ([price, size]: RawLevel): [number, number] => [Number(price), Number(size)];
+  return {
+    bids: snapshot.bids.slice(0, 15).map(toNumbers),
+    asks: snapshot.asks.slice(0, 15).map(toNumbers)
+  };
+};
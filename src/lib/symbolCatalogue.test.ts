@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EXCHANGE_APIS } from './exchanges';
+import { SYMBOLS } from './orderFormOptions';
+import {
+  BYBIT_MAX_PAGES,
+  buildCatalogue,
+  canonicalSymbol,
+  fetchVenueListings,
+  parseBinanceExchangeInfo,
+  parseBybitInstruments,
+  parseDeribitInstruments,
+  parseOkxInstruments,
+  searchSymbols,
+  type InstrumentListing
+} from './symbolCatalogue';
+import okxInstruments from './__fixtures__/instruments/okx.json';
+import bybitPage1 from './__fixtures__/instruments/bybit-page1.json';
+import bybitPage2 from './__fixtures__/instruments/bybit-page2.json';
+import deribitInstruments from './__fixtures__/instruments/deribit.json';
+import binanceExchangeInfo from './__fixtures__/instruments/binance.json';
+
+const allListings = (): InstrumentListing[] => [
+  ...parseOkxInstruments(okxInstruments),
+  ...parseBybitInstruments(bybitPage1),
+  ...parseBybitInstruments(bybitPage2),
+  ...parseDeribitInstruments(deribitInstruments),
+  ...parseBinanceExchangeInfo(binanceExchangeInfo)
+];
+
+// Answers each request with the payload for the first URL it starts with
+const stubFetch = (routes: Array<[string, unknown]>) => {
+  const fetchMock = vi.fn((url: string) => {
+    const route = routes.find(([prefix]) => url.startsWith(prefix));
+    return Promise.resolve(route
+      ? { ok: true, status: 200, json: () => Promise.resolve(route[1]) }
+      : { ok: false, status: 404, json: () => Promise.resolve({}) });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('venue instrument parsers', () => {
+  it('keeps live OKX spot pairs with their size filters', () => {
+    const listings = parseOkxInstruments(okxInstruments);
+    expect(listings.map(l => l.venueSymbol)).toEqual(['BTC-USDT', 'BTC-USDC', 'ETH-USDT', 'SOL-USDT', 'BTC-EUR']);
+    expect(listings[0]).toEqual({
+      venue: 'okx',
+      venueSymbol: 'BTC-USDT',
+      base: 'BTC',
+      quote: 'USDT',
+      type: 'spot',
+      spec: { tickSize: 0.1, lotSize: 0.00000001, minSize: 0.00001, maxSize: 9999999999, minNotional: 0, contractMultiplier: 1 }
+    });
+  });
+
+  it('keeps trading Bybit linear perpetuals, dropping dated futures and pre-launch listings', () => {
+    expect(parseBybitInstruments(bybitPage1).map(l => l.venueSymbol)).toEqual(['BTCUSDT', 'BTCPERP', 'ETHUSDT', 'ETHPERP']);
+    expect(parseBybitInstruments(bybitPage2).map(l => l.venueSymbol)).toEqual(['SOLUSDT', 'DOGEUSDT']);
+    expect(parseBybitInstruments(bybitPage1)[0].spec).toEqual({
+      tickSize: 0.1, lotSize: 0.001, minSize: 0.001, maxSize: 1190, minNotional: 5, contractMultiplier: 1
+    });
+  });
+
+  it('sizes Deribit perpetuals in whole contracts, flagging inverse ones', () => {
+    const listings = parseDeribitInstruments(deribitInstruments);
+    expect(listings.map(l => l.venueSymbol)).toEqual(['BTC-PERPETUAL', 'ETH-PERPETUAL', 'BTC_USDC-PERPETUAL', 'SOL_USDC-PERPETUAL']);
+    expect(listings[0].spec).toEqual({
+      tickSize: 0.5, lotSize: 1, minSize: 1, minNotional: 0, contractMultiplier: 10, inverse: true
+    });
+    expect(listings[2].spec).toEqual({
+      tickSize: 1, lotSize: 1, minSize: 1, minNotional: 0, contractMultiplier: 0.001, inverse: undefined
+    });
+  });
+
+  it('reads Binance filters, skipping symbols that are not trading', () => {
+    const listings = parseBinanceExchangeInfo(binanceExchangeInfo);
+    expect(listings.map(l => l.venueSymbol)).toEqual(['BTCUSD', 'BTCUSDT', 'ETHUSD', 'SOLUSDC', 'LTCBTC']);
+    expect(listings[1].spec).toEqual({
+      tickSize: 0.01, lotSize: 0.00001, minSize: 0.00001, maxSize: 9000, minNotional: 10, contractMultiplier: 1
+    });
+  });
+
+  it('reports venue errors instead of returning an empty listing', () => {
+    expect(() => parseOkxInstruments({ code: '50011', msg: 'Too Many Requests', data: [] })).toThrow('Too Many Requests');
+    expect(() => parseBybitInstruments({ retCode: 10006, retMsg: 'Too many visits!' })).toThrow('Too many visits!');
+    expect(() => parseDeribitInstruments({ error: { message: 'bad_request' } })).toThrow('bad_request');
+    expect(() => parseBinanceExchangeInfo({ msg: 'Service unavailable' })).toThrow('Service unavailable');
+  });
+});
+
+describe('buildCatalogue', () => {
+  it('collapses dollar stablecoin quotes into one USD symbol, preferring USDT, then USD, then USDC', () => {
+    expect(canonicalSymbol({ base: 'BTC', quote: 'USDC' })).toBe('BTC-USD');
+    expect(canonicalSymbol({ base: 'BTC', quote: 'EUR' })).toBe('BTC-EUR');
+
+    const { mappings } = buildCatalogue(allListings(), SYMBOLS);
+    expect(mappings['BTC-USD']).toEqual({ okx: 'BTC-USDT', bybit: 'BTCUSDT', deribit: 'BTC-PERPETUAL', binance: 'BTCUSDT' });
+    expect(mappings['ETH-USD']).toEqual({ okx: 'ETH-USDT', bybit: 'ETHUSDT', deribit: 'ETH-PERPETUAL', binance: 'ETHUSD' });
+    expect(mappings['SOL-USD']).toEqual({ okx: 'SOL-USDT', bybit: 'SOLUSDT', deribit: 'SOL_USDC-PERPETUAL', binance: 'SOLUSDC' });
+    expect(mappings['BTC-EUR']).toEqual({ okx: 'BTC-EUR' });
+    expect(mappings['LTC-BTC']).toEqual({ binance: 'LTCBTC' });
+  });
+
+  it('registers specs only for the chosen instruments', () => {
+    const { instruments } = buildCatalogue(allListings(), SYMBOLS);
+    expect(Object.keys(instruments.okx).sort()).toEqual(['BTC-EUR', 'BTC-USDT', 'ETH-USDT', 'SOL-USDT']);
+    expect(instruments.deribit['BTC-PERPETUAL']).toMatchObject({ contractMultiplier: 10, inverse: true });
+    expect(instruments.deribit['BTC_USDC-PERPETUAL']).toBeUndefined();
+  });
+
+  it('keeps known symbols first, then orders by venue count and name', () => {
+    const { symbols } = buildCatalogue(allListings(), SYMBOLS);
+    expect(symbols.slice(0, 3)).toEqual(SYMBOLS);
+    expect(symbols.slice(3).map(s => s.value)).toEqual(['BTC-EUR', 'DOGE-USD', 'LTC-BTC']);
+    expect(symbols[4].description).toBe(`DOGE against USD on ${EXCHANGE_APIS.bybit.name}`);
+  });
+
+  it('ignores listings of a type the venue does not stream, or without a tick size', () => {
+    const [spot] = parseOkxInstruments(okxInstruments);
+    const { mappings } = buildCatalogue([
+      { ...spot, type: 'perpetual' },
+      { ...parseBinanceExchangeInfo(binanceExchangeInfo)[1], spec: { ...spot.spec, tickSize: 0 } }
+    ]);
+    expect(mappings).toEqual({});
+  });
+
+  it('searches by base first', () => {
+    const { symbols } = buildCatalogue(allListings(), SYMBOLS);
+    expect(searchSymbols(symbols, 'btc').map(s => s.value)).toEqual(['BTC-USD', 'BTC-EUR', 'LTC-BTC']);
+    expect(searchSymbols(symbols, 'doge/usd').map(s => s.value)).toEqual(['DOGE-USD']);
+  });
+});
+
+describe('fetchVenueListings', () => {
+  it('follows the Bybit page cursor until it runs out', async () => {
+    const base = EXCHANGE_APIS.bybit.instruments;
+    const cursor = bybitPage1.result.nextPageCursor;
+    const fetchMock = stubFetch([[`${base}&cursor=`, bybitPage2], [base, bybitPage1]]);
+
+    const { listings, truncated } = await fetchVenueListings('bybit');
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([base, `${base}&cursor=${encodeURIComponent(cursor)}`]);
+    expect(listings.map(l => l.venueSymbol)).toEqual(['BTCUSDT', 'BTCPERP', 'ETHUSDT', 'ETHPERP', 'SOLUSDT', 'DOGEUSDT']);
+    expect(truncated).toBeUndefined();
+  });
+
+  it('keeps the pages read when the cursor outlasts the page cap, and reports the listing truncated', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Every page points at another, so paging only ends at the cap
+    const fetchMock = stubFetch([[EXCHANGE_APIS.bybit.instruments, bybitPage1]]);
+
+    const { listings, truncated } = await fetchVenueListings('bybit');
+    expect(fetchMock).toHaveBeenCalledTimes(BYBIT_MAX_PAGES);
+    expect(listings).toHaveLength(BYBIT_MAX_PAGES * parseBybitInstruments(bybitPage1).length);
+    expect(truncated).toBe(`Listing truncated after ${BYBIT_MAX_PAGES} pages (${listings.length} instruments); more pages remain`);
+    expect(console.warn).toHaveBeenCalledWith(`bybit: ${truncated}`);
+  });
+
+  it('reads other venues in a single request and surfaces HTTP failures', async () => {
+    stubFetch([[EXCHANGE_APIS.deribit.instruments, deribitInstruments]]);
+    expect((await fetchVenueListings('deribit')).listings).toHaveLength(4);
+    await expect(fetchVenueListings('okx')).rejects.toThrow('HTTP 404');
+    await expect(fetchVenueListings('kraken')).rejects.toThrow('No instrument listing for kraken');
+  });
+});
@@ -0,0 +1,324 @@
+// Venue instrument listings mapped onto the app's canonical BASE-QUOTE symbols
+import { EXCHANGE_APIS, type SymbolMapping } from './exchanges';
+import type { InstrumentSpec } from './instruments';
+
+export type InstrumentType = 'spot' | 'perpetual';
+
+export interface InstrumentListing {
+  venue: string;
+  venueSymbol: string;
+  base: string;
+  quote: string; // as listed, e.g. USDT
+  type: InstrumentType;
+  spec: InstrumentSpec;
+}
+
+export interface SymbolOption {
+  label: string;
+  value: string;
+  base: string;
+  quote: string; // canonical quote
+  description: string;
+}
+
+export interface SymbolCatalogue {
+  symbols: SymbolOption[];
+  mappings: { [symbol: string]: SymbolMapping };
+  instruments: { [venue: string]: { [venueSymbol: string]: InstrumentSpec } };
+  listedAt: { [venue: string]: number }; // when each venue's listing was fetched
+  errors: { [venue: string]: string }; // venues that failed, or whose listing came back incomplete
+}
+
+// A venue's listing; `truncated` says why it may be missing instruments
+export interface VenueListings {
+  listings: InstrumentListing[];
+  truncated?: string;
+}
+
+// Dollar stablecoins trade as one USD market; earlier entries win when a venue lists several
+const USD_QUOTES = ['USDT', 'USD', 'USDC'];
+
+// The instrument type each venue's book stream carries
+const STREAMED_TYPE: { [venue: string]: InstrumentType } = {
+  okx: 'spot',
+  bybit: 'perpetual',
+  deribit: 'perpetual',
+  binance: 'spot'
+};
+
+// Bybit serves up to 1000 instruments a page, so the cap only bites if its listing grows past 5000
+export const BYBIT_MAX_PAGES = 5;
+const FETCH_TIMEOUT_MS = 10000;
+
+export const canonicalQuote = (quote: string) => USD_QUOTES.includes(quote) ? 'USD' : quote;
+
+export const canonicalSymbol = (listing: Pick<InstrumentListing, 'base' | 'quote'>) =>
+  `${listing.base}-${canonicalQuote(listing.quote)}`;
+
+const quoteRank = (quote: string) => {
+  const index = USD_QUOTES.indexOf(quote);
+  return index === -1 ? USD_QUOTES.length : index;
+};
+
+// Numeric fields arrive as strings on OKX, Bybit and Binance
+const num = (value: string | number | undefined) => Number(value) || 0;
+
+interface OkxInstrumentsResponse {
+  code?: string;
+  msg?: string;
+  data?: { instId: string; instType: string; state: string; baseCcy: string; quoteCcy: string; tickSz: string; lotSz: string; minSz: string; maxLmtSz?: string }[];
+}
+
+interface BybitInstrumentsResponse {
+  retCode?: number;
+  retMsg?: string;
+  result?: {
+    nextPageCursor?: string;
+    list?: {
+      symbol: string;
+      contractType: string;
+      status: string;
+      baseCoin: string;
+      quoteCoin: string;
+      priceFilter?: { tickSize: string };
+      lotSizeFilter?: { qtyStep: string; minOrderQty: string; maxOrderQty?: string; minNotionalValue?: string };
+    }[];
+  };
+}
+
+interface DeribitInstrumentsResponse {
+  error?: { message: string };
+  result?: {
+    instrument_name: string;
+    kind: string;
+    settlement_period: string;
+    is_active: boolean;
+    base_currency: string;
+    quote_currency: string;
+    instrument_type?: 'linear' | 'reversed';
+    tick_size: number;
+    contract_size: number;
+    min_trade_amount: number;
+  }[];
+}
+
+interface BinanceExchangeInfo {
+  msg?: string;
+  symbols?: {
+    symbol: string;
+    status: string;
+    baseAsset: string;
+    quoteAsset: string;
+    filters?: { filterType: string; tickSize?: string; stepSize?: string; minQty?: string; maxQty?: string; minNotional?: string }[];
+  }[];
+}
+
+export function parseOkxInstruments(message: unknown): InstrumentListing[] {
+  const parsed = message as OkxInstrumentsResponse;
+  if (parsed?.code !== '0' || !Array.isArray(parsed.data)) throw new Error(parsed?.msg || 'Unexpected OKX response');
+
+  return parsed.data
+    .filter(i => i.instType === 'SPOT' && i.state === 'live')
+    .map(i => ({
+      venue: 'okx',
+      venueSymbol: i.instId,
+      base: i.baseCcy,
+      quote: i.quoteCcy,
+      type: 'spot',
+      spec: {
+        tickSize: num(i.tickSz),
+        lotSize: num(i.lotSz),
+        minSize: num(i.minSz),
+        maxSize: num(i.maxLmtSz) || undefined,
+        minNotional: 0,
+        contractMultiplier: 1
+      }
+    }));
+}
+
+export function parseBybitInstruments(message: unknown): InstrumentListing[] {
+  const parsed = message as BybitInstrumentsResponse;
+  if (parsed?.retCode !== 0 || !Array.isArray(parsed.result?.list)) throw new Error(parsed?.retMsg || 'Unexpected Bybit response');
+
+  return parsed.result.list
+    .filter(i => i.contractType === 'LinearPerpetual' && i.status === 'Trading')
+    .map(i => ({
+      venue: 'bybit',
+      venueSymbol: i.symbol,
+      base: i.baseCoin,
+      quote: i.quoteCoin,
+      type: 'perpetual',
+      spec: {
+        tickSize: num(i.priceFilter?.tickSize),
+        lotSize: num(i.lotSizeFilter?.qtyStep),
+        minSize: num(i.lotSizeFilter?.minOrderQty),
+        maxSize: num(i.lotSizeFilter?.maxOrderQty) || undefined,
+        minNotional: num(i.lotSizeFilter?.minNotionalValue),
+        contractMultiplier: 1
+      }
+    }));
+}
+
+export function parseDeribitInstruments(message: unknown): InstrumentListing[] {
+  const parsed = message as DeribitInstrumentsResponse;
+  if (!Array.isArray(parsed?.result)) throw new Error(parsed?.error?.message || 'Unexpected Deribit response');
+
+  return parsed.result
+    .filter(i => i.kind === 'future' && i.settlement_period === 'perpetual' && i.is_active)
+    .map(i => ({
+      venue: 'deribit',
+      venueSymbol: i.instrument_name,
+      base: i.base_currency,
+      quote: i.quote_currency,
+      type: 'perpetual',
+      // Amounts are whole contracts: USD for inverse perpetuals, base units for linear ones
+      spec: {
+        tickSize: num(i.tick_size),
+        lotSize: 1,
+        minSize: num(i.min_trade_amount) / num(i.contract_size) || 1,
+        minNotional: 0,
+        contractMultiplier: num(i.contract_size),
+        inverse: i.instrument_type === 'reversed' || undefined
+      }
+    }));
+}
+
+export function parseBinanceExchangeInfo(message: unknown): InstrumentListing[] {
+  const parsed = message as BinanceExchangeInfo;
+  if (!Array.isArray(parsed?.symbols)) throw new Error(parsed?.msg || 'Unexpected Binance response');
+
+  return parsed.symbols
+    .filter(s => s.status === 'TRADING')
+    .map(s => {
+      const filter = (type: string) => s.filters?.find(f => f.filterType === type);
+      const lot = filter('LOT_SIZE');
+      return {
+        venue: 'binance',
+        venueSymbol: s.symbol,
+        base: s.baseAsset,
+        quote: s.quoteAsset,
+        type: 'spot',
+        spec: {
+          tickSize: num(filter('PRICE_FILTER')?.tickSize),
+          lotSize: num(lot?.stepSize),
+          minSize: num(lot?.minQty),
+          maxSize: num(lot?.maxQty) || undefined,
+          minNotional: num(filter('NOTIONAL')?.minNotional ?? filter('MIN_NOTIONAL')?.minNotional),
+          contractMultiplier: 1
+        }
+      };
+    });
+}
+
+const PARSERS: { [venue: string]: (message: unknown) => InstrumentListing[] } = {
+  okx: parseOkxInstruments,
+  bybit: parseBybitInstruments,
+  deribit: parseDeribitInstruments,
+  binance: parseBinanceExchangeInfo
+};
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+}
+
+// Reads a venue's listing; venues block browser requests, so this runs server-side
+export async function fetchVenueListings(venue: string): Promise<VenueListings> {
+  const api = EXCHANGE_APIS[venue];
+  const parse = PARSERS[venue];
+  if (!api || !parse) throw new Error(`No instrument listing for ${venue}`);
+
+  if (venue !== 'bybit') return { listings: parse(await fetchJson(api.instruments)) };
+
+  // Bybit pages its listing with a cursor
+  const listings: InstrumentListing[] = [];
+  let cursor = '';
+  for (let page = 0; page < BYBIT_MAX_PAGES; page++) {
+    const data = await fetchJson(cursor ? `${api.instruments}&cursor=${encodeURIComponent(cursor)}` : api.instruments);
+    listings.push(...parse(data));
+    cursor = (data as BybitInstrumentsResponse).result?.nextPageCursor || '';
+    if (!cursor) return { listings };
+  }
+
+  // Keep what was read rather than failing the venue, but say the listing is incomplete
+  const truncated = `Listing truncated after ${BYBIT_MAX_PAGES} pages (${listings.length} instruments); more pages remain`;
+  console.warn(`bybit: ${truncated}`);
+  return { listings, truncated };
+}
+
+// Groups listings by canonical symbol, picking one instrument per venue: the type the venue streams,
+// then the preferred dollar quote
+export function buildCatalogue(
+  listings: InstrumentListing[],
+  known: SymbolOption[] = []
+): Pick<SymbolCatalogue, 'symbols' | 'mappings' | 'instruments'> {
+  const chosen: { [symbol: string]: { [venue: string]: InstrumentListing } } = {};
+
+  listings.forEach(listing => {
+    if (!listing.base || !listing.quote || listing.type !== STREAMED_TYPE[listing.venue]) return;
+    if (!(listing.spec.tickSize > 0)) return;
+
+    const symbol = canonicalSymbol(listing);
+    const current = chosen[symbol]?.[listing.venue];
+    if (!current || quoteRank(listing.quote) < quoteRank(current.quote)) {
+      chosen[symbol] = { ...chosen[symbol], [listing.venue]: listing };
+    }
+  });
+
+  const mappings: SymbolCatalogue['mappings'] = {};
+  const instruments: SymbolCatalogue['instruments'] = {};
+  Object.entries(chosen).forEach(([symbol, venues]) => {
+    mappings[symbol] = {};
+    Object.values(venues).forEach(listing => {
+      mappings[symbol][listing.venue] = listing.venueSymbol;
+      instruments[listing.venue] = { ...instruments[listing.venue], [listing.venueSymbol]: listing.spec };
+    });
+  });
+
+  // Symbols listed on more venues sort first, so majors lead an unfiltered picker
+  const descriptions = new Map(known.map(option => [option.value, option.description]));
+  const symbols = Object.keys(chosen)
+    .map(symbol => {
+      const [base, quote] = symbol.split('-');
+      const venues = Object.keys(chosen[symbol]).map(venue => EXCHANGE_APIS[venue]?.name || venue);
+      return {
+        label: `${base}/${quote}`,
+        value: symbol,
+        base,
+        quote,
+        description: descriptions.get(symbol) || `${base} against ${quote} on ${venues.join(', ')}`
+      };
+    })
+    .sort((a, b) =>
+      Object.keys(chosen[b.value]).length - Object.keys(chosen[a.value]).length || a.value.localeCompare(b.value)
+    );
+
+  // Known symbols keep their place at the top, listed or not
+  const knownValues = new Set(known.map(option => option.value));
+  return {
+    symbols: [...known, ...symbols.filter(option => !knownValues.has(option.value))],
+    mappings,
+    instruments
+  };
+}
+
+// Search ranking: exact base, base prefix, then anywhere in the symbol or description
+export function searchSymbols(symbols: SymbolOption[], query: string, limit: number = 50): SymbolOption[] {
+  const q = query.trim().toUpperCase().replace('/', '-');
+  if (!q) return symbols.slice(0, limit);
+
+  const rank = (option: SymbolOption) => {
+    if (option.base === q || option.value === q) return 0;
+    if (option.base.startsWith(q) || option.value.startsWith(q)) return 1;
+    if (option.value.includes(q)) return 2;
+    return option.description.toUpperCase().includes(q) ? 3 : -1;
+  };
+
+  return symbols
+    .map((option, index) => ({ option, index, rank: rank(option) }))
+    .filter(entry => entry.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(entry => entry.option);
+}
@@ -1,349 +1,114 @@
 // WebSocket manager for real-time orderbook data with proxy server integration
-interface OrderbookData {
-  bids: Array<[number, number]>;
-  asks: Array<[number, number]>;
-}
+import { getExchangeSymbol } from './exchanges';
+import { fetchOrderbookSnapshot, type OrderbookSnapshot } from './restApi';
+import { BookEngine, DEFAULT_BOOK_DEPTH } from './bookEngine';
+import { getExchangeAdapter, type ControlEvent, type ExchangeAdapter, type OrderbookData, type Subscription } from './adapters';
+import { DemoMarket, getDemoMarketConfig } from './demoMarket';
+import { MarketDataRecorder, REPLAY_SCHEME, ReplayPlayer, resolveReplayUrl, type RecordedEntry } from './marketDataRecorder';
 
-export interface WebSocketConfig {
-  url: string;
-  subscriptionMessage: Record<string, unknown> | null;
-  parseMessage: (data: unknown) => OrderbookData | null;
-  name: string;
+export interface WebSocketManagerOptions {
+  depth?: number; // levels published per side (BOOK_DEPTHS)
+  onResync?: (reason: string) => void; // local book discarded and a fresh snapshot requested
+  url?: string; // overrides the adapter URL; replay:// URLs play back a recorded session
+  demoSeed?: number; // fixes the demo market's random stream for reproducible sessions
+  demoVolatilityScale?: number; // multiplies each symbol's configured demo volatility
 }
 
-// Get proxy URL from environment variable
-const getProxyUrl = () => {
-  const baseUrl = process.env.NEXT_PUBLIC_PROXY_URL || 'ws://localhost:8080';
-  // Convert to WSS for production
-  return process.env.NODE_ENV === 'production' 
-    ? baseUrl.replace('ws://', 'wss://').replace('http://', 'https://') 
-    : baseUrl;
-};
-
-// WebSocket configurations using proxy server for OKX, Bybit, and Deribit
-export const WEBSOCKET_CONFIGS: { [key: string]: WebSocketConfig } = {
-  // OKX via proxy server
-  okx: {
-    url: `${getProxyUrl()}/okx`,
-    subscriptionMessage: {
-      op: 'subscribe',
-      args: [{
-        channel: 'books',
-        instId: 'BTC-USDT' // This should be dynamic based on selected symbol
-      }]
-    },
-    name: 'OKX',
-    parseMessage: (data: unknown): OrderbookData | null => {
-      console.log('OKX raw message:', JSON.stringify(data, null, 2));
-      
-      const parsed = data as Record<string, unknown>;
-      
-      // Skip connection acknowledgment messages
-      if (parsed.type === 'connected' || parsed.type === 'pong' || parsed.type === 'subscription') {
-        console.log('OKX connection/control message, skipping:', parsed.type);
-        return null;
-      }
-      
-      // Format 1: Standard OKX response with data array
-      if (parsed.data && Array.isArray(parsed.data) && parsed.data.length > 0) {
-        const orderbook = parsed.data[0] as Record<string, unknown>;
-        if (orderbook.bids && orderbook.asks) {
-          console.log('OKX format 1 matched');
-          const bids = orderbook.bids as string[][];
-          const asks = orderbook.asks as string[][];
-          return {
-            bids: bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-            asks: asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-          };
-        }
-      }
-      
-      // Format 2: Direct orderbook data
-      if (parsed.bids && parsed.asks) {
-        console.log('OKX format 2 matched');
-        const bids = parsed.bids as string[][];
-        const asks = parsed.asks as string[][];
-        return {
-          bids: bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-          asks: asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-        };
-      }
-      
-      // Format 3: Nested data object
-      if (parsed.data && typeof parsed.data === 'object') {
-        const dataObj = parsed.data as Record<string, unknown>;
-        if (dataObj.bids && dataObj.asks) {
-          console.log('OKX format 3 matched');
-          const bids = dataObj.bids as string[][];
-          const asks = dataObj.asks as string[][];
-          return {
-            bids: bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-            asks: asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-          };
-        }
-      }
-      
-      console.log('No OKX format matched, available keys:', Object.keys(parsed));
-      return null;
-    }
-  },
-
-  // Bybit via proxy server
-  bybit: {
-    url: `${getProxyUrl()}/bybit`,
-    subscriptionMessage: {
-      op: 'subscribe',
-      args: ['orderbook.1.BTCUSDT']
-    },
-    name: 'Bybit',
-    parseMessage: (data: unknown): OrderbookData | null => {
-      console.log('Bybit raw message:', JSON.stringify(data, null, 2));
-      
-      const parsed = data as Record<string, unknown>;
-      
-      // Skip connection acknowledgment messages
-      if (parsed.type === 'connected' || parsed.type === 'pong' || parsed.op === 'subscribe') {
-        console.log('Bybit connection/control message, skipping:', parsed.type || parsed.op);
-        return null;
-      }
-      
-      // Format 1: Direct data object
-      if (parsed.data && typeof parsed.data === 'object') {
-        const dataObj = parsed.data as Record<string, unknown>;
-        if (dataObj.b && dataObj.a) {
-          console.log('Bybit format 1 matched');
-          const bids = dataObj.b as string[][];
-          const asks = dataObj.a as string[][];
-          return {
-            bids: bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-            asks: asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-          };
-        }
-      }
-      
-      // Format 2: Topic-based message
-      if (parsed.topic && parsed.data && typeof parsed.data === 'object') {
-        const dataObj = parsed.data as Record<string, unknown>;
-        if (dataObj.b && dataObj.a) {
-          console.log('Bybit format 2 matched');
-          const bids = dataObj.b as string[][];
-          const asks = dataObj.a as string[][];
-          return {
-            bids: bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-            asks: asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-          };
-        }
-      }
-      
-      // Format 3: Snapshot format
-      if (parsed.type === 'snapshot' && parsed.data && typeof parsed.data === 'object') {
-        const orderbook = parsed.data as Record<string, unknown>;
-        if (orderbook.bids && orderbook.asks) {
-          console.log('Bybit format 3 matched');
-          const bids = orderbook.bids as string[][];
-          const asks = orderbook.asks as string[][];
-          return {
-            bids: bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-            asks: asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-          };
-        }
-      }
-      
-      // Format 4: Direct bids/asks
-      if (parsed.bids && parsed.asks) {
-        console.log('Bybit format 4 matched');
-        const bids = parsed.bids as string[][];
-        const asks = parsed.asks as string[][];
-        return {
-          bids: bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-          asks: asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-        };
-      }
-      
-      console.log('No Bybit format matched, available keys:', Object.keys(parsed));
-      return null;
-    }
-  },
-
-  // Deribit via proxy server
-  deribit: {
-    url: `${getProxyUrl()}/deribit`,
-    subscriptionMessage: {
-      jsonrpc: '2.0',
-      id: 1,
-      method: 'public/subscribe',
-      params: {
-        channels: ['book.BTC-PERPETUAL.100ms']
-      }
-    },
-    name: 'Deribit',
-    parseMessage: (data: unknown): OrderbookData | null => {
-      console.log('Deribit raw message:', JSON.stringify(data, null, 2));
-      
-      const parsed = data as Record<string, unknown>;
-      
-      // Skip connection acknowledgment messages
-      if (parsed.type === 'connected' || parsed.id || parsed.jsonrpc) {
-        console.log('Deribit connection/control message, skipping:', parsed.type || 'RPC message');
-        return null;
-      }
-      
-      // Format 1: Standard Deribit response
-      if (parsed.params && typeof parsed.params === 'object') {
-        const params = parsed.params as Record<string, unknown>;
-        if (params.data && typeof params.data === 'object') {
-          const orderbook = params.data as Record<string, unknown>;
-          if (orderbook.bids && orderbook.asks) {
-            console.log('Deribit format 1 matched');
-            const bids = orderbook.bids as number[][];
-            const asks = orderbook.asks as number[][];
-            return {
-              bids: bids.slice(0, 15).map(([price, qty]) => [price, qty]),
-              asks: asks.slice(0, 15).map(([price, qty]) => [price, qty])
-            };
-          }
-        }
-      }
-      
-      // Format 2: Direct data object
-      if (parsed.data && typeof parsed.data === 'object') {
-        const orderbook = parsed.data as Record<string, unknown>;
-        if (orderbook.bids && orderbook.asks) {
-          console.log('Deribit format 2 matched');
-          const bids = orderbook.bids as number[][];
-          const asks = orderbook.asks as number[][];
-          return {
-            bids: bids.slice(0, 15).map(([price, qty]) => [price, qty]),
-            asks: asks.slice(0, 15).map(([price, qty]) => [price, qty])
-          };
-        }
-      }
-      
-      // Format 3: Direct bids/asks
-      if (parsed.bids && parsed.asks) {
-        console.log('Deribit format 3 matched');
-        const bids = parsed.bids as number[][];
-        const asks = parsed.asks as number[][];
-        return {
-          bids: bids.slice(0, 15).map(([price, qty]) => [price, qty]),
-          asks: asks.slice(0, 15).map(([price, qty]) => [price, qty])
-        };
-      }
-      
-      console.log('No Deribit format matched, available keys:', Object.keys(parsed));
-      return null;
-    }
-  },
-  
-  // Binance US - CORS friendly (fallback)
-  binance: {
-    url: 'wss://stream.binance.us:9443/ws/btcusdt@depth20@100ms',
-    subscriptionMessage: null, // Auto-subscribes via URL
-    name: 'Binance US',
-    parseMessage: (data: unknown): OrderbookData | null => {
-      const parsed = data as { bids?: string[][]; asks?: string[][] };
-      if (parsed.bids && parsed.asks) {
-        return {
-          bids: parsed.bids.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)]),
-          asks: parsed.asks.slice(0, 15).map(([price, qty]) => [Number(price), Number(qty)])
-        };
-      }
-      return null;
-    }
-  },
-
-  // Demo mode with realistic mock data
-  demo: {
-    url: 'demo://localhost',
-    name: 'Demo Mode',
-    subscriptionMessage: null,
-    parseMessage: () => null // Handled separately
-  }
-};
+const DEMO_TICK_MS = 250;
 
 export class WebSocketManager {
   private ws: WebSocket | null = null;
-  private config: WebSocketConfig;
+  // null runs the built-in demo feed
+  private adapter: ExchangeAdapter | null;
+  private engine: BookEngine | null = null;
+  private exchange: string;
+  private symbol: string;
+  private levels: number;
+  private depth: number; // venue subscription depth covering `levels`, 0 where the venue offers no choice
   private onMessage: (data: OrderbookData) => void;
   private onConnectionChange: (connected: boolean, error?: string) => void;
+  private onResync?: (reason: string) => void;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 3;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
   private demoInterval: NodeJS.Timeout | null = null;
-  private messageCount = 0;
+  private demoMarkets = new Map<string, DemoMarket>();
+  private demoSeed: number;
+  private demoVolatilityScale: number;
+  private url?: string;
+  private recorder: MarketDataRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private pendingReplaySnapshot: ((snapshot: OrderbookSnapshot | null) => void) | null = null;
 
   constructor(
     exchange: string,
+    symbol: string,
     onMessage: (data: OrderbookData) => void,
-    onConnectionChange: (connected: boolean, error?: string) => void
+    onConnectionChange: (connected: boolean, error?: string) => void,
+    options: WebSocketManagerOptions = {}
   ) {
-    this.config = WEBSOCKET_CONFIGS[exchange] || WEBSOCKET_CONFIGS.demo;
+    this.adapter = getExchangeAdapter(exchange);
+    this.exchange = exchange;
+    this.symbol = symbol;
+    this.levels = options.depth ?? DEFAULT_BOOK_DEPTH;
+    this.depth = this.resolveDepth(this.levels);
     this.onMessage = onMessage;
     this.onConnectionChange = onConnectionChange;
+    this.onResync = options.onResync;
+    this.url = options.url;
+    this.demoSeed = options.demoSeed ?? Date.now();
+    this.demoVolatilityScale = options.demoVolatilityScale ?? 1;
   }
 
   connect(): void {
-    if (this.config.url === 'demo://localhost') {
+    const adapter = this.adapter;
+    if (!adapter) {
       this.startDemoMode();
       return;
     }
 
+    this.engine = new BookEngine(adapter, {
+      onBook: (data) => {
+        if (data.bids.length > 0 && data.asks.length > 0) {
+          this.onMessage(data);
+        }
+      },
+      onResync: (reason) => this.resync(reason),
+      fetchSnapshot: (limit) => this.fetchSnapshot(limit)
+    }, this.levels);
+
+    const url = this.url ?? adapter.buildUrl();
+    if (url.startsWith(REPLAY_SCHEME)) {
+      this.startReplay(url);
+      return;
+    }
+
     try {
-      this.ws = new WebSocket(this.config.url);
+      this.ws = new WebSocket(url);
       
       this.ws.onopen = () => {
-        console.log(`Connected to ${this.config.name}`);
+        console.log(`Connected to ${adapter.name}`);
         this.reconnectAttempts = 0;
+        this.engine?.reset();
         this.onConnectionChange(true);
-        
-        // Send subscription message if needed
-        if (this.config.subscriptionMessage && this.ws) {
-          console.log(`Sending subscription to ${this.config.name}:`, this.config.subscriptionMessage);
-          this.ws.send(JSON.stringify(this.config.subscriptionMessage));
-          
-          // Set a timeout to check if we receive data
-          setTimeout(() => {
-            console.log(`${this.config.name}: Checking for data after 10 seconds...`);
-          }, 10000);
-        } else {
-          console.log(`No subscription message for ${this.config.name}`);
-        }
+        this.subscribe(this.getSubscription());
+        this.startHeartbeat();
       };
 
       this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          console.log(`${this.config.name} received message:`, data);
-          
-          const orderbook = this.config.parseMessage(data);
-          if (orderbook && orderbook.bids.length > 0 && orderbook.asks.length > 0) {
-            console.log(`${this.config.name} parsed orderbook successfully:`, {
-              bidsCount: orderbook.bids.length,
-              asksCount: orderbook.asks.length,
-              bestBid: orderbook.bids[0],
-              bestAsk: orderbook.asks[0]
-            });
-            this.onMessage(orderbook);
-          } else {
-            console.warn(`${this.config.name} parsed orderbook but no valid data:`, orderbook);
-            // Count total messages received for debugging
-            this.messageCount++;
-            if (this.messageCount > 5) {
-              console.warn(`${this.config.name}: Received ${this.messageCount} messages but no orderbook data yet. Check proxy server data flow.`);
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to parse ${this.config.name} WebSocket message:`, error, event.data);
-        }
+        this.recorder?.record({ ts: Date.now(), raw: event.data });
+        this.handleFrame(adapter, event.data);
       };
 
       this.ws.onerror = (error) => {
-        console.error(`WebSocket error for ${this.config.name}:`, error);
+        console.error(`WebSocket error for ${adapter.name}:`, error);
         this.onConnectionChange(false, 'Connection error');
       };
 
       this.ws.onclose = (event) => {
-        console.log(`WebSocket closed for ${this.config.name}:`, event.code, event.reason);
+        console.log(`WebSocket closed for ${adapter.name}:`, event.code, event.reason);
+        this.stopHeartbeat();
         this.onConnectionChange(false, event.reason || 'Connection closed');
         
         // Auto-reconnect with exponential backoff
@@ -352,63 +117,241 @@ export class WebSocketManager {
           this.reconnectAttempts++;
           
           this.reconnectTimeout = setTimeout(() => {
-            console.log(`Reconnecting to ${this.config.name} (attempt ${this.reconnectAttempts})...`);
+            console.log(`Reconnecting to ${adapter.name} (attempt ${this.reconnectAttempts})...`);
             this.connect();
           }, delay);
         } else {
-          console.log(`Max reconnection attempts reached for ${this.config.name}, switching to demo mode`);
+          console.log(`Max reconnection attempts reached for ${adapter.name}, switching to demo mode`);
           this.startDemoMode();
         }
       };
 
     } catch (error) {
-      console.error(`Failed to create WebSocket connection for ${this.config.name}:`, error);
+      console.error(`Failed to create WebSocket connection for ${adapter.name}:`, error);
       this.onConnectionChange(false, 'Failed to connect');
       this.startDemoMode();
     }
   }
 
+  // Switch the streamed instrument without tearing down the connection
+  setSymbol(symbol: string): void {
+    if (symbol === this.symbol) return;
+
+    const previous = this.getSubscription();
+    this.symbol = symbol;
+    this.switchSubscription(previous);
+  }
+
+  // Publish a different number of levels, resubscribing where the venue needs a deeper or shallower feed
+  setDepth(levels: number): void {
+    if (levels === this.levels) return;
+
+    this.levels = levels;
+    this.engine?.setDepth(levels);
+    this.demoMarkets.forEach(market => market.setLevels(levels));
+
+    // A replay keeps the depth it was recorded at
+    const nextDepth = this.resolveDepth(levels);
+    if (nextDepth === this.depth || this.replayPlayer) return;
+
+    const previous = this.getSubscription();
+    this.depth = nextDepth;
+    this.switchSubscription(previous);
+  }
+
+  // Capture every raw frame (and REST snapshot) received from now on
+  startRecording(): void {
+    if (!this.adapter || this.replayPlayer) return;
+    this.recorder = new MarketDataRecorder(this.exchange, this.symbol, this.depth);
+
+    // Resubscribe so the recording opens with a full snapshot and replays standalone
+    const subscription = this.getSubscription();
+    this.engine?.drop(subscription.symbol);
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.unsubscribe(subscription);
+      this.subscribe(subscription);
+    }
+  }
+
+  // Returns the captured session as NDJSON
+  stopRecording(): string | null {
+    const ndjson = this.recorder?.toNdjson() ?? null;
+    this.recorder = null;
+    return ndjson;
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  // Replay speed multiplier; 0 pauses for stepwise playback
+  setReplaySpeed(speed: number): void {
+    this.replayPlayer?.setSpeed(speed);
+  }
+
+  stepReplay(): boolean {
+    return this.replayPlayer?.step() ?? false;
+  }
+
+  private handleFrame(adapter: ExchangeAdapter, data: string): void {
+    let message: unknown = data;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      // Plain-text frames such as OKX's 'pong' are passed to the adapter as-is
+    }
+
+    try {
+      const feedEvent = adapter.decode(message);
+      if (feedEvent.kind === 'control') {
+        this.handleControl(feedEvent);
+        return;
+      }
+
+      // In-flight messages from a previous symbol or depth subscription
+      if (feedEvent.channel !== adapter.channelFor(this.getSubscription())) return;
+
+      this.engine?.handle(feedEvent);
+    } catch (error) {
+      console.warn(`Failed to handle ${adapter.name} WebSocket message:`, error);
+    }
+  }
+
+  private startReplay(url: string): void {
+    const adapter = this.adapter as ExchangeAdapter;
+    const session = resolveReplayUrl(url);
+    if (!session) {
+      this.onConnectionChange(false, 'Replay session not found');
+      return;
+    }
+
+    const { recording, speed } = session;
+    this.symbol = recording.header.symbol;
+    this.depth = this.resolveDepth(recording.header.depth);
+    this.onConnectionChange(true, 'Replay mode active');
+
+    this.replayPlayer = new ReplayPlayer(recording, speed, (entry: RecordedEntry) => {
+      if ('raw' in entry) {
+        this.handleFrame(adapter, entry.raw);
+      } else if ('snapshot' in entry) {
+        this.pendingReplaySnapshot?.(entry.snapshot);
+        this.pendingReplaySnapshot = null;
+      } else {
+        const previous = this.getSubscription();
+        this.symbol = entry.subscription.symbol;
+        this.depth = entry.subscription.depth;
+        this.engine?.drop(previous.symbol);
+      }
+    }, () => this.onConnectionChange(true, recording.header.truncatedAt === undefined
+      ? 'Replay finished'
+      : 'Replay finished (recording was cut off at its size limit)'));
+    this.replayPlayer.play();
+  }
+
+  // Live sessions hit the venue REST API; replays wait for the recorded snapshot entry
+  private fetchSnapshot(limit: number): Promise<OrderbookSnapshot | null> {
+    if (this.replayPlayer) {
+      return new Promise(resolve => {
+        this.pendingReplaySnapshot = resolve;
+      });
+    }
+
+    return fetchOrderbookSnapshot(this.exchange, this.getSubscription().symbol, limit).then(snapshot => {
+      this.recorder?.record({ ts: Date.now(), snapshot });
+      return snapshot;
+    });
+  }
+
+  private switchSubscription(previous: Subscription): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.unsubscribe(previous);
+      this.subscribe(this.getSubscription());
+    }
+    this.recorder?.record({ ts: Date.now(), subscription: { symbol: this.symbol, depth: this.depth } });
+    this.engine?.drop(previous.symbol);
+  }
+
+  // The shallowest venue subscription covering the published levels, or the deepest on offer
+  private resolveDepth(levels: number): number {
+    const depths = this.adapter?.depths;
+    if (!depths) return 0;
+    return [...depths].sort((a, b) => a - b).find(depth => depth >= levels) ?? Math.max(...depths);
+  }
+
+  // The engine has discarded the book; resubscribe so the venue sends a fresh snapshot
+  private resync(reason: string): void {
+    const subscription = this.getSubscription();
+    console.warn(`${this.adapter?.name}: ${reason}, resubscribing to ${subscription.symbol}`);
+    this.onResync?.(reason);
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.unsubscribe(subscription);
+      this.subscribe(subscription);
+    }
+  }
+
+  private handleControl(event: ControlEvent): void {
+    if (event.control === 'error') {
+      console.warn(`${this.adapter?.name} reported an error:`, event.detail);
+    }
+  }
+
+  private getSubscription(): Subscription {
+    return {
+      symbol: getExchangeSymbol(this.symbol, this.exchange),
+      depth: this.depth
+    };
+  }
+
+  private subscribe(subscription: Subscription): void {
+    if (!this.adapter || !this.ws) return;
+    this.ws.send(JSON.stringify(this.adapter.subscribe(subscription)));
+  }
+
+  private unsubscribe(subscription: Subscription): void {
+    if (!this.adapter || !this.ws) return;
+    this.ws.send(JSON.stringify(this.adapter.unsubscribe(subscription)));
+  }
+
+  private startHeartbeat(): void {
+    const heartbeat = this.adapter?.heartbeat;
+    if (!heartbeat) return;
+
+    this.stopHeartbeat();
+    this.heartbeatInterval = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(heartbeat.message);
+      }
+    }, heartbeat.intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
   private startDemoMode(): void {
-    console.log('Starting demo mode with realistic market data');
+    console.log('Starting demo mode with simulated market data');
     this.onConnectionChange(true, 'Demo mode active');
-    
-    // Generate realistic demo data every 100ms
+
+    // Each symbol keeps its own market so switching back resumes where it left off
     const generateDemoData = () => {
-      const basePrice = 65000 + (Math.random() - 0.5) * 1000; // BTC price with some variation
-      const bids: Array<[number, number]> = [];
-      const asks: Array<[number, number]> = [];
-      
-      // Generate realistic orderbook with spread
-      const spread = basePrice * 0.0001; // 0.01% spread
-      
-      for (let i = 0; i < 15; i++) {
-        const bidPrice = basePrice - spread - (i * basePrice * 0.00005);
-        const askPrice = basePrice + spread + (i * basePrice * 0.00005);
-        
-        // Realistic quantities with depth decay
-        const baseLiquidity = Math.random() * 5 + 1;
-        const depthFactor = Math.exp(-i * 0.1);
-        
-        bids.push([
-          Math.round(bidPrice * 100) / 100,
-          Math.round(baseLiquidity * depthFactor * 10000) / 10000
-        ]);
-        
-        asks.push([
-          Math.round(askPrice * 100) / 100,
-          Math.round(baseLiquidity * depthFactor * 10000) / 10000
-        ]);
+      let market = this.demoMarkets.get(this.symbol);
+      if (!market) {
+        const volatility = getDemoMarketConfig(this.symbol).volatility * this.demoVolatilityScale;
+        market = new DemoMarket(this.symbol, this.demoSeed, { volatility });
+        market.setLevels(this.levels);
+        this.demoMarkets.set(this.symbol, market);
+      } else {
+        market.step(DEMO_TICK_MS / 1000);
       }
-      
-      this.onMessage({ bids, asks });
+      this.onMessage(market.snapshot(this.levels));
     };
 
-    // Start demo data generation
     generateDemoData(); // Initial data
-    const demoInterval = setInterval(generateDemoData, 100 + Math.random() * 400); // 100-500ms intervals
-    
-    // Store interval for cleanup
-    this.demoInterval = demoInterval;
+    this.demoInterval = setInterval(generateDemoData, DEMO_TICK_MS);
   }
 
   disconnect(): void {
@@ -422,15 +365,24 @@ export class WebSocketManager {
       this.demoInterval = null;
     }
 
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    this.stopHeartbeat();
+    this.replayPlayer?.pause();
+    this.replayPlayer = null;
+    this.pendingReplaySnapshot = null;
+
+    if (this.ws) {
+      // Detach first so an intentional close neither delivers stale data nor schedules a reconnect
+      this.ws.onmessage = null;
+      this.ws.onclose = null;
       this.ws.close();
     }
     
     this.ws = null;
     this.reconnectAttempts = 0;
+    this.engine?.reset();
   }
 
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN || this.demoInterval != null;
+    return this.ws?.readyState === WebSocket.OPEN || this.demoInterval != null || this.replayPlayer != null;
   }
 }